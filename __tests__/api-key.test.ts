@@ -0,0 +1,79 @@
+import type { AuthError } from '../src/telling';
+import { loadSdk, queuedMessages, recordingTransport, SlowStorageAdapter, wait } from './helpers';
+
+describe('API key rejection', () => {
+  beforeEach(() => {
+    // Only Date and intervals are faked, so the cool-down can be skipped past
+    jest.useFakeTimers({ doNotFake: ['setTimeout', 'clearTimeout', 'setImmediate', 'nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = (ms: number) => jest.setSystemTime(Date.now() + ms);
+
+  async function launch(storage: SlowStorageAdapter, apiKey: string, status: () => number) {
+    const authErrors: AuthError[] = [];
+    const transport = recordingTransport(() => ({ status: status() }));
+    const sdk = loadSdk();
+    const logger = sdk.TellingLogger.instance;
+    await logger.init(apiKey, {
+      storage,
+      transport,
+      authRetryCooldown: 60 * 1000,
+      onAuthError: (error) => authErrors.push(error),
+    });
+    const flush = async () => {
+      sdk.cycleAppState();
+      await wait(10);
+    };
+    return { logger, transport, authErrors, flush };
+  }
+
+  it('pauses after repeated rejections and probes once the cool-down ends', async () => {
+    let status = 401;
+    const storage = new SlowStorageAdapter(0);
+    const { logger, transport, authErrors, flush } = await launch(storage, 'old-key', () => status);
+    for (let i = 0; i < 5; i++) await flush();
+
+    expect(authErrors).toEqual([{ status: 401, nextProbeAt: new Date(Date.now() + 60 * 1000) }]);
+    const attempts = transport.batches.length;
+    await flush();
+    expect(transport.batches).toHaveLength(attempts);
+    logger.dispose();
+    await wait(150);
+    expect(await queuedMessages(storage)).toContain('app_open');
+
+    // A relaunch with the same key keeps waiting for the probe
+    const relaunch = await launch(storage, 'old-key', () => status);
+    await relaunch.flush();
+    expect(relaunch.transport.batches).toHaveLength(0);
+
+    advance(61 * 1000);
+    status = 200;
+    await relaunch.flush();
+    expect(relaunch.transport.batches.length).toBeGreaterThan(0);
+    expect(relaunch.authErrors).toHaveLength(0);
+    relaunch.logger.dispose();
+    await wait(150);
+    expect(await storage.getItem('telling_api_key_rejected')).toBeNull();
+  });
+
+  it('resumes immediately with a new key', async () => {
+    let status = 403;
+    const storage = new SlowStorageAdapter(0);
+    const { logger, transport, authErrors, flush } = await launch(storage, 'old-key', () => status);
+    for (let i = 0; i < 5; i++) await flush();
+    expect(authErrors).toHaveLength(1);
+
+    status = 200;
+    logger.setApiKey('new-key');
+    await wait(10);
+    logger.dispose();
+
+    const lastBatch = transport.batches[transport.batches.length - 1].map((e) => e.message);
+    expect(lastBatch).toContain('app_open');
+    expect(await storage.getItem('telling_api_key_rejected')).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { ConsentCategory, ConsentStatus, consentCategoryForType, resolveConsent, LogType } from '../src/models';
+
+const allGranted = resolveConsent({} as Parameters<typeof resolveConsent>[0], ConsentStatus.Granted);
+
+describe('consent', () => {
+  it('applies one status to every category', () => {
+    expect(Object.values(resolveConsent(allGranted, ConsentStatus.Pending))).toEqual(
+      Object.values(ConsentCategory).map(() => ConsentStatus.Pending)
+    );
+  });
+
+  it('updates only the given categories and ignores unknown values', () => {
+    const consent = resolveConsent(allGranted, {
+      [ConsentCategory.Analytics]: ConsentStatus.Denied,
+      [ConsentCategory.Performance]: 'maybe' as ConsentStatus,
+    });
+    expect(consent[ConsentCategory.Analytics]).toBe(ConsentStatus.Denied);
+    expect(consent[ConsentCategory.Performance]).toBe(ConsentStatus.Granted);
+    expect(consent[ConsentCategory.CrashReporting]).toBe(ConsentStatus.Granted);
+  });
+
+  it('maps event types to categories', () => {
+    expect(consentCategoryForType(LogType.Analytics)).toBe(ConsentCategory.Analytics);
+    expect(consentCategoryForType(LogType.Crash)).toBe(ConsentCategory.CrashReporting);
+    expect(consentCategoryForType(LogType.Performance)).toBe(ConsentCategory.Performance);
+    expect(consentCategoryForType(LogType.General)).toBe(ConsentCategory.Diagnostics);
+  });
+});
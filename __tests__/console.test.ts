@@ -0,0 +1,52 @@
+import { ConsoleCall, instrumentConsole } from '../src/integrations/console';
+import { BreadcrumbCategory } from '../src/models';
+import { loadSdk, recordingTransport, SlowStorageAdapter, wait } from './helpers';
+
+describe('console capture', () => {
+  let output: jest.SpyInstance[];
+
+  beforeEach(() => {
+    output = (['log', 'info', 'warn', 'error', 'debug'] as const).map((method) =>
+      jest.spyOn(console, method).mockImplementation(() => undefined)
+    );
+  });
+
+  afterEach(() => {
+    output.forEach((spy) => spy.mockRestore());
+  });
+
+  it('ignores calls made while a call is being reported, and SDK output', () => {
+    const calls: ConsoleCall[] = [];
+    const restore = instrumentConsole((call) => {
+      calls.push(call);
+      console.warn('reporting', call.message);
+    }, ['warn', 'error']);
+
+    console.error('Payment failed', new Error('declined'), { orderId: 7 });
+    console.warn('[Telling] WARNING general: mirrored');
+    restore();
+    console.error('after restore');
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({ level: 'error', message: 'Payment failed Error: declined {"orderId":7}' });
+    expect(calls[0].stackTrace).toContain('declined');
+  });
+
+  it('reports a captured error once even when it is mirrored back to the console', async () => {
+    const transport = recordingTransport();
+    const { TellingLogger, cycleAppState } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage: new SlowStorageAdapter(0), transport, mirrorToConsole: true });
+    logger.enableConsoleCapture({ eventLevels: ['error'] });
+
+    console.error('Sync failed');
+    console.log('still here');
+    cycleAppState();
+    await wait(10);
+    const breadcrumbs = logger.getBreadcrumbs().filter((b) => b.category === BreadcrumbCategory.Console);
+    logger.dispose();
+
+    expect(transport.batches.flat().filter((e) => e.message === 'Sync failed')).toHaveLength(1);
+    expect(breadcrumbs.map((b) => b.message)).toEqual(['Sync failed', 'still here']);
+  });
+});
@@ -0,0 +1,92 @@
+import type { DeliveryReport } from '../src/telling';
+import type { TransportResponse } from '../src/transport';
+import { loadSdk, queuedMessages, recordingTransport, SentEvent, SlowStorageAdapter, wait } from './helpers';
+
+async function setup(respond: (batch: SentEvent[]) => TransportResponse) {
+  const storage = new SlowStorageAdapter(0);
+  const reports: DeliveryReport[] = [];
+  const transport = recordingTransport(respond);
+  const sdk = loadSdk();
+  const logger = sdk.TellingLogger.instance;
+  await logger.init('key', { storage, transport, onDelivery: (report) => reports.push(report) });
+  await wait(10);
+  transport.batches.length = 0;
+  reports.length = 0;
+
+  const flush = async () => {
+    sdk.cycleAppState();
+    await wait(10);
+  };
+  const sent = () => transport.batches.flat().map((e) => e.message);
+  return { logger, storage, reports, flush, sent };
+}
+
+describe('delivery', () => {
+  beforeEach(() => {
+    // Only Date and intervals are faked, so retry delays can be skipped past
+    jest.useFakeTimers({ doNotFake: ['setTimeout', 'clearTimeout', 'setImmediate', 'nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = (ms: number) => jest.setSystemTime(Date.now() + ms);
+
+  it('splits batches that are too large and drops a single event that is', async () => {
+    const { logger, storage, reports, flush, sent } = await setup((batch) => ({
+      status: batch.length > 2 || batch.some((e) => e.message === 'huge') ? 413 : 200,
+    }));
+    ['a', 'b', 'huge', 'c', 'd'].forEach((message) => logger.log(message));
+    await flush();
+    logger.dispose();
+    await wait(150);
+
+    const delivered = reports.filter((r) => r.outcome === 'success').reduce((sum, r) => sum + r.eventCount, 0);
+    expect(delivered).toBeGreaterThanOrEqual(4);
+    expect(sent()).toEqual(expect.arrayContaining(['a', 'b', 'c', 'd']));
+    expect(reports.some((r) => r.outcome === 'payload_too_large' && r.eventCount === 1)).toBe(true);
+    expect(await queuedMessages(storage)).not.toContain('huge');
+  });
+
+  it('waits for Retry-After before sending again', async () => {
+    let status = 200;
+    const { logger, flush, sent } = await setup(() => ({ status, headers: { 'retry-after': '60' } }));
+    status = 429;
+    logger.log('throttled');
+    await flush();
+    const attempts = sent().length;
+
+    await flush();
+    expect(sent()).toHaveLength(attempts);
+
+    advance(61 * 1000);
+    status = 200;
+    await flush();
+    logger.dispose();
+    expect(sent().filter((m) => m === 'throttled')).toHaveLength(2);
+  });
+
+  it('drops batches rejected as malformed and keeps those that failed on the server', async () => {
+    let status = 200;
+    const { logger, storage, flush, sent } = await setup(() => ({ status }));
+    status = 400;
+    logger.log('malformed');
+    await flush();
+
+    status = 500;
+    logger.log('server error');
+    await flush();
+    await wait(150);
+    const queued = await queuedMessages(storage);
+    expect(queued).not.toContain('malformed');
+    expect(queued).toContain('server error');
+
+    advance(10 * 1000);
+    status = 200;
+    await flush();
+    logger.dispose();
+    expect(sent().filter((m) => m === 'malformed')).toHaveLength(1);
+    expect(sent().filter((m) => m === 'server error')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,48 @@
+import { computeFingerprint, normalizeMessage } from '../src/utils/fingerprint';
+import { parseStackTrace, stackFramesToJson } from '../src/utils/stack-trace-parser';
+
+function fingerprint(message: string, stack: string): string {
+  return computeFingerprint({ message, stackTraceElements: stackFramesToJson(parseStackTrace(stack)) });
+}
+
+describe('computeFingerprint', () => {
+  it('groups the same crash across lines, hosts and bundle hashes', () => {
+    const first = fingerprint(
+      'Cannot read property "id" of undefined',
+      [
+        '    at loadProfile (http://10.0.2.2:8081/src/profile.js?platform=ios:12:5)',
+        '    at ProfileScreen (http://10.0.2.2:8081/src/screens.js?platform=ios:40:9)',
+      ].join('\n')
+    );
+    const second = fingerprint(
+      'Cannot read property "name" of undefined',
+      [
+        '    at loadProfile (http://localhost:8081/src/profile.js?platform=ios:14:7)',
+        '    at ProfileScreen (http://localhost:8081/src/screens.js?platform=ios:52:3)',
+      ].join('\n')
+    );
+    expect(first).toBe(second);
+  });
+
+  it('skips dependency frames when the trace has app frames', () => {
+    const app = '    at submit (/app/src/checkout.js:10:2)';
+    const withLibrary = `    at dispatch (/app/node_modules/react-native/Libraries/events.js:1:1)\n${app}`;
+    expect(fingerprint('failed', withLibrary)).toBe(fingerprint('failed', app));
+  });
+
+  it('separates different crashes in a minified Hermes bundle', () => {
+    const first = fingerprint('Network request failed', '    at anonymous (address at index.android.bundle:1:123456)');
+    const second = fingerprint('Invalid date', '    at anonymous (address at index.android.bundle:1:777)');
+    expect(first).not.toBe(second);
+  });
+
+  it('groups repeats of a minified crash', () => {
+    const stack = '    at anonymous (address at index.android.bundle:1:123456)';
+    expect(fingerprint('Request 41 failed', stack)).toBe(fingerprint('Request 42 failed', stack));
+  });
+
+  it('falls back to the normalized message without frames', () => {
+    expect(fingerprint('Timeout after 3000ms for a@b.co', '')).toBe(fingerprint('Timeout after 50ms for c@d.io', ''));
+    expect(normalizeMessage('Order 0x1f "abc" took 12.5s')).toBe('Order <hex> <str> took <num>s');
+  });
+});
@@ -0,0 +1,107 @@
+import { ungzip } from 'pako';
+import { MemoryStorageAdapter, StorageAdapter } from '../src/utils/storage-adapter';
+import { PersistentQueue } from '../src/utils/persistent-queue';
+import type { Transport, TransportResponse } from '../src/transport';
+import type { ConnectivityProvider } from '../src/transport';
+
+/** Memory storage whose reads resolve after a delay, to widen races during init */
+export class SlowStorageAdapter extends MemoryStorageAdapter {
+  constructor(private readonly _delay = 20) {
+    super();
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    await wait(this._delay);
+    return super.getItem(key);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    await wait(this._delay);
+    return super.getAllKeys();
+  }
+}
+
+export const QUEUE_PREFIX = 'telling_logs_queue_';
+
+export interface QueuedEvent {
+  id: string;
+  message: string;
+  userId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Events persisted in the SDK's queue, as the next launch would recover them */
+export async function queuedEvents(storage: StorageAdapter): Promise<QueuedEvent[]> {
+  return new PersistentQueue<QueuedEvent>({ storage, keyPrefix: QUEUE_PREFIX }).load();
+}
+
+export async function queuedMessages(storage: StorageAdapter): Promise<string[]> {
+  return (await queuedEvents(storage)).map((e) => e.message);
+}
+
+export const offline: ConnectivityProvider = {
+  isConnected: async () => false,
+  subscribe: () => () => undefined,
+};
+
+/** Event as serialized in a sent batch */
+export interface SentEvent {
+  id: string;
+  message: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Records every batch and answers with `respond`, a status or a response per batch */
+export function recordingTransport(
+  respond: number | ((batch: SentEvent[]) => TransportResponse) = 200
+): Transport & { batches: SentEvent[][] } {
+  const batches: SentEvent[][] = [];
+  return {
+    batches,
+    sendBatch: async ({ payload, compressed }) => {
+      const json = compressed ? ungzip(payload as Uint8Array, { to: 'string' }) : (payload as string);
+      const batch = JSON.parse(json) as SentEvent[];
+      batches.push(batch);
+      return typeof respond === 'number' ? { status: respond } : respond(batch);
+    },
+    fetchVersionCheck: async () => ({ status: 200, body: {} }),
+  };
+}
+
+/** Transport whose sends stay in flight until `failAll()` rejects them as network errors */
+export function stalledTransport(): Transport & { inFlight: number; failAll: () => void } {
+  const rejects: Array<(error: Error) => void> = [];
+  return {
+    get inFlight() {
+      return rejects.length;
+    },
+    sendBatch: () => new Promise((_resolve, reject) => rejects.push(reject)),
+    fetchVersionCheck: async () => ({ status: 200, body: {} }),
+    failAll: () => rejects.splice(0).forEach((reject) => reject(new Error('Network request failed'))),
+  };
+}
+
+export function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+type Sdk = typeof import('../src/telling') & {
+  /** Send the app to the background and back, which flushes every client */
+  cycleAppState: () => void;
+};
+
+/** Load a fresh copy of the SDK so singleton and module state don't leak between tests */
+export function loadSdk(): Sdk {
+  let sdk!: Sdk;
+  jest.isolateModules(() => {
+    const { AppState } = require('react-native') as typeof import('./mocks/react-native');
+    sdk = {
+      ...(require('../src/telling') as typeof import('../src/telling')),
+      cycleAppState: () => {
+        AppState.emit('background');
+        AppState.emit('active');
+      },
+    };
+  });
+  return sdk;
+}
@@ -0,0 +1,58 @@
+import { LogLevel } from '../src/models';
+import type { InitOptions } from '../src/telling';
+import { loadSdk, offline, recordingTransport, SlowStorageAdapter, wait } from './helpers';
+
+async function sentMessages(options: InitOptions, logs: Array<[string, LogLevel]>): Promise<string[]> {
+  const transport = recordingTransport();
+  const { TellingLogger, cycleAppState } = loadSdk();
+  const logger = TellingLogger.instance;
+  await logger.init('key', { storage: new SlowStorageAdapter(0), transport, ...options });
+  logs.forEach(([message, level]) => logger.log(message, { level }));
+  cycleAppState();
+  await wait(10);
+  logger.dispose();
+  return transport.batches.flat().map((e) => e.message);
+}
+
+describe('minimum log level', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('drops events below the minimum level', async () => {
+    const messages = await sentMessages({ minLevel: LogLevel.Warning }, [
+      ['verbose', LogLevel.Debug],
+      ['routine', LogLevel.Info],
+      ['careful', LogLevel.Warning],
+    ]);
+    expect(messages).not.toContain('verbose');
+    expect(messages).not.toContain('routine');
+    expect(messages).toContain('careful');
+  });
+
+  it('uses the release level outside development builds', async () => {
+    const messages = await sentMessages({ minLevel: { development: LogLevel.Trace, release: LogLevel.Error } }, [
+      ['careful', LogLevel.Warning],
+      ['broken', LogLevel.Error],
+    ]);
+    expect(messages).not.toContain('careful');
+    expect(messages).toContain('broken');
+  });
+
+  it('still mirrors dropped events to the console', async () => {
+    const debug = jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    const { TellingLogger } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', {
+      storage: new SlowStorageAdapter(0),
+      connectivity: offline,
+      minLevel: LogLevel.Warning,
+      mirrorToConsole: true,
+    });
+    logger.log('verbose', { level: LogLevel.Debug, metadata: { step: 1 } });
+    logger.dispose();
+
+    expect(debug).toHaveBeenCalledWith('[Telling] DEBUG general: verbose', expect.objectContaining({ step: 1 }));
+  });
+});
@@ -0,0 +1,6 @@
+export default {
+  getSystemVersion: () => '17.0',
+  getModel: async () => 'iPhone15,2',
+  getVersion: () => '1.0.0',
+  getBuildNumber: () => '1',
+};
@@ -0,0 +1,2 @@
+export const setJSExceptionHandler = jest.fn();
+export const setNativeExceptionHandler = jest.fn();
@@ -0,0 +1,26 @@
+type AppStateListener = (state: string) => void;
+
+const listeners: AppStateListener[] = [];
+
+export const AppState = {
+  currentState: 'active',
+  addEventListener(_event: string, listener: AppStateListener) {
+    listeners.push(listener);
+    return {
+      remove() {
+        listeners.splice(listeners.indexOf(listener), 1);
+      },
+    };
+  },
+  /** Test helper: emit an AppState change */
+  emit(state: string) {
+    AppState.currentState = state;
+    listeners.forEach((listener) => listener(state));
+  },
+};
+
+export const Platform = { OS: 'ios' };
+
+export const InteractionManager = {
+  runAfterInteractions: (callback: () => void) => callback(),
+};
@@ -0,0 +1,104 @@
+import { instrumentNetwork, NetworkRequestInfo } from '../src/integrations/network';
+import { BreadcrumbCategory } from '../src/models';
+import { loadSdk, SlowStorageAdapter, wait } from './helpers';
+
+type Listener = () => void;
+
+/** Minimal XMLHttpRequest that completes when `respond()` is called */
+class FakeXhr {
+  static created: FakeXhr[] = [];
+  status = 0;
+  private _listeners: Listener[] = [];
+
+  constructor() {
+    FakeXhr.created.push(this);
+  }
+
+  open(_method: string, _url: string): void {}
+  send(_body?: unknown): void {}
+
+  addEventListener(_event: string, listener: Listener): void {
+    this._listeners.push(listener);
+  }
+
+  removeEventListener(_event: string, listener: Listener): void {
+    this._listeners = this._listeners.filter((l) => l !== listener);
+  }
+
+  respond(status: number): void {
+    this.status = status;
+    [...this._listeners].forEach((listener) => listener());
+  }
+}
+
+const globals = globalThis as { fetch: typeof fetch; XMLHttpRequest?: unknown };
+
+describe('network instrumentation', () => {
+  const originalFetch = globals.fetch;
+
+  beforeEach(() => {
+    FakeXhr.created = [];
+    globals.XMLHttpRequest = FakeXhr;
+  });
+
+  afterEach(() => {
+    globals.fetch = originalFetch;
+    delete globals.XMLHttpRequest;
+  });
+
+  it('reports fetch calls once, not the XHR that implements them', async () => {
+    // Like React Native, fetch dispatches through XMLHttpRequest
+    globals.fetch = (async () => {
+      const xhr = new (globals.XMLHttpRequest as typeof FakeXhr)();
+      xhr.open('GET', 'https://api.example.com/items');
+      xhr.send();
+      xhr.respond(200);
+      return new Response('{}', { status: 200 });
+    }) as typeof fetch;
+    const requests: NetworkRequestInfo[] = [];
+    const restore = instrumentNetwork((info) => requests.push(info));
+
+    await fetch('https://api.example.com/items?token=secret#top');
+    const xhr = new (globals.XMLHttpRequest as typeof FakeXhr)() as unknown as XMLHttpRequest;
+    xhr.open('post', 'https://api.example.com/upload');
+    xhr.send();
+    (xhr as unknown as FakeXhr).respond(0);
+    restore();
+
+    expect(requests).toEqual([
+      expect.objectContaining({ method: 'GET', url: 'https://api.example.com/items', status: 200 }),
+      expect.objectContaining({ method: 'POST', url: 'https://api.example.com/upload', error: 'Network request failed' }),
+    ]);
+  });
+
+  it('restores the original implementations', () => {
+    const fetchBefore = globals.fetch;
+    const openBefore = FakeXhr.prototype.open;
+    const restore = instrumentNetwork(() => undefined);
+    expect(globals.fetch).not.toBe(fetchBefore);
+    restore();
+    expect(globals.fetch).toBe(fetchBefore);
+    expect(FakeXhr.prototype.open).toBe(openBefore);
+  });
+
+  it("records app requests but never the SDK's own, even when they fail", async () => {
+    const urls: string[] = [];
+    globals.fetch = (async (input: string) => {
+      urls.push(input);
+      return new Response('{}', { status: 503 });
+    }) as typeof fetch;
+
+    const { TellingLogger, cycleAppState } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage: new SlowStorageAdapter(0), baseUrl: 'https://logs.example.com' });
+    logger.enableNetworkTracking();
+    await fetch('https://api.example.com/items?page=2');
+    cycleAppState();
+    await wait(10);
+    const breadcrumbs = logger.getBreadcrumbs().filter((b) => b.category === BreadcrumbCategory.Http);
+    logger.dispose();
+
+    expect(urls).toContain('https://logs.example.com/logs');
+    expect(breadcrumbs.map((b) => b.message)).toEqual(['GET https://api.example.com/items [503]']);
+  });
+});
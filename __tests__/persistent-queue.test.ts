@@ -0,0 +1,95 @@
+import { PersistentQueue } from '../src/utils/persistent-queue';
+import { MemoryStorageAdapter } from '../src/utils/storage-adapter';
+
+interface Entry {
+  id: string;
+  message: string;
+}
+
+const PREFIX = 'telling_logs_queue_';
+
+function createQueue(storage: MemoryStorageAdapter, chunkSize = 2): PersistentQueue<Entry> {
+  return new PersistentQueue<Entry>({ storage, keyPrefix: PREFIX, chunkSize, writeDelay: 0 });
+}
+
+function entry(n: number): Entry {
+  return { id: `id_${n}`, message: `message ${n}` };
+}
+
+describe('PersistentQueue', () => {
+  it('recovers appended entries in order after a restart', async () => {
+    const storage = new MemoryStorageAdapter();
+    const queue = createQueue(storage);
+    await queue.load();
+    [1, 2, 3, 4, 5].forEach((n) => queue.append(entry(n)));
+    await queue.flushWrites();
+
+    const recovered = await createQueue(storage).load();
+    expect(recovered.map((e) => e.id)).toEqual(['id_1', 'id_2', 'id_3', 'id_4', 'id_5']);
+  });
+
+  it('removes acknowledged entries and deletes emptied chunks', async () => {
+    const storage = new MemoryStorageAdapter();
+    const queue = createQueue(storage);
+    await queue.load();
+    [1, 2, 3].forEach((n) => queue.append(entry(n)));
+    await queue.flushWrites();
+
+    queue.ack(['id_1', 'id_2']);
+    await queue.flushWrites();
+
+    expect(queue.size).toBe(1);
+    expect(await storage.getAllKeys()).toEqual([`${PREFIX}1`]);
+    expect((await createQueue(storage).load()).map((e) => e.id)).toEqual(['id_3']);
+  });
+
+  it('appends after the chunks left by a previous launch', async () => {
+    const storage = new MemoryStorageAdapter();
+    const first = createQueue(storage);
+    await first.load();
+    [1, 2, 3].forEach((n) => first.append(entry(n)));
+    await first.flushWrites();
+
+    const second = createQueue(storage);
+    await second.load();
+    second.append(entry(4));
+    await second.flushWrites();
+
+    expect((await createQueue(storage).load()).map((e) => e.id)).toEqual(['id_1', 'id_2', 'id_3', 'id_4']);
+  });
+
+  it('holds appends made before load and writes them after recovered chunks', async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.setItem(`${PREFIX}0`, JSON.stringify([entry(1)]));
+
+    const queue = createQueue(storage);
+    queue.append(entry(2));
+    expect(await queue.load()).toEqual([entry(1)]);
+    await queue.flushWrites();
+
+    expect(queue.size).toBe(2);
+    expect((await createQueue(storage).load()).map((e) => e.id)).toEqual(['id_1', 'id_2']);
+  });
+
+  it('discards unreadable chunks', async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.setItem(`${PREFIX}0`, 'not json');
+    await storage.setItem(`${PREFIX}1`, JSON.stringify([entry(1)]));
+
+    const recovered = await createQueue(storage).load();
+    expect(recovered.map((e) => e.id)).toEqual(['id_1']);
+    expect(await storage.getItem(`${PREFIX}0`)).toBeNull();
+  });
+
+  it('clears every entry', async () => {
+    const storage = new MemoryStorageAdapter();
+    const queue = createQueue(storage);
+    await queue.load();
+    [1, 2, 3].forEach((n) => queue.append(entry(n)));
+    queue.clear();
+    await queue.flushWrites();
+
+    expect(queue.size).toBe(0);
+    expect(await createQueue(storage).load()).toEqual([]);
+  });
+});
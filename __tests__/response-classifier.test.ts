@@ -0,0 +1,45 @@
+import { classifyResponse, parseRetryAfter } from '../src/transport/response-classifier';
+
+describe('classifyResponse', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('treats any 2xx as success', () => {
+    expect(classifyResponse({ status: 200 }).outcome).toBe('success');
+    expect(classifyResponse({ status: 202 }).outcome).toBe('success');
+  });
+
+  it('flags 413 for bisection', () => {
+    expect(classifyResponse({ status: 413 })).toMatchObject({ outcome: 'payload_too_large', status: 413 });
+  });
+
+  it('retries 429 and 503, honoring Retry-After', () => {
+    expect(classifyResponse({ status: 429, headers: { 'retry-after': '30' } }, now)).toEqual({
+      outcome: 'retry',
+      status: 429,
+      retryAfterMs: 30000,
+    });
+    expect(
+      classifyResponse({ status: 503, headers: { 'retry-after': 'Mon, 01 Jan 2024 00:01:00 GMT' } }, now).retryAfterMs
+    ).toBe(60000);
+    expect(classifyResponse({ status: 429 }).outcome).toBe('retry');
+  });
+
+  it('retries timeouts and server errors, rejects other client errors', () => {
+    expect(classifyResponse({ status: 408 }).outcome).toBe('retry');
+    expect(classifyResponse({ status: 500 }).outcome).toBe('retry');
+    expect(classifyResponse({ status: 400 }).outcome).toBe('rejected');
+    expect(classifyResponse({ status: 422 }).outcome).toBe('rejected');
+  });
+
+  it('reports 401 and 403 as unauthorized', () => {
+    expect(classifyResponse({ status: 401 }).outcome).toBe('unauthorized');
+    expect(classifyResponse({ status: 403 }).outcome).toBe('unauthorized');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('ignores missing and malformed values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
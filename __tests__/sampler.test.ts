@@ -0,0 +1,51 @@
+import { EventSampler } from '../src/utils/sampler';
+import { createLogEvent, LogLevel, LogType } from '../src/models';
+
+function event(type: LogType, level: LogLevel, sessionId?: string) {
+  return createLogEvent({ type, level, message: 'test', timestamp: '2024-01-01T00:00:00.000Z', sessionId });
+}
+
+describe('EventSampler', () => {
+  it('keeps everything by default', () => {
+    const decision = new EventSampler().sample(event(LogType.Analytics, LogLevel.Info));
+    expect(decision).toEqual({ sampled: true, rate: 1 });
+  });
+
+  it('applies the first matching rule', () => {
+    const sampler = new EventSampler({
+      rules: [
+        { type: LogType.Crash, rate: 1 },
+        { type: LogType.Analytics, level: LogLevel.Debug, rate: 0 },
+      ],
+      defaultRate: 0.5,
+    });
+    expect(sampler.sample(event(LogType.Crash, LogLevel.Fatal))).toEqual({ sampled: true, rate: 1 });
+    expect(sampler.sample(event(LogType.Analytics, LogLevel.Debug))).toEqual({ sampled: false, rate: 0 });
+    expect(sampler.sample(event(LogType.Analytics, LogLevel.Info)).rate).toBe(0.5);
+  });
+
+  it('clamps rates to [0, 1]', () => {
+    const sampler = new EventSampler({ rules: [{ type: LogType.Performance, rate: 7 }] });
+    expect(sampler.sample(event(LogType.Performance, LogLevel.Info))).toEqual({ sampled: true, rate: 1 });
+  });
+
+  it('makes the same decision for every event in a session', () => {
+    const sampler = new EventSampler({ defaultRate: 0.5 });
+    for (let session = 0; session < 20; session++) {
+      const first = sampler.sample(event(LogType.General, LogLevel.Info, `session_${session}`));
+      for (let i = 0; i < 5; i++) {
+        expect(sampler.sample(event(LogType.General, LogLevel.Info, `session_${session}`)).sampled).toBe(first.sampled);
+      }
+    }
+  });
+
+  it('samples roughly at the configured rate across sessions', () => {
+    const sampler = new EventSampler({ defaultRate: 0.25 });
+    let kept = 0;
+    for (let session = 0; session < 2000; session++) {
+      if (sampler.sample(event(LogType.General, LogLevel.Info, `session_${session}`)).sampled) kept++;
+    }
+    expect(kept / 2000).toBeGreaterThan(0.2);
+    expect(kept / 2000).toBeLessThan(0.3);
+  });
+});
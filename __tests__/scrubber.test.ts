@@ -0,0 +1,75 @@
+import { PiiScrubber } from '../src/utils/scrubber';
+import { createLogEvent, LogLevel, LogType } from '../src/models';
+
+function event(overrides: Partial<Parameters<typeof createLogEvent>[0]> = {}) {
+  return createLogEvent({
+    type: LogType.General,
+    level: LogLevel.Info,
+    message: '',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+}
+
+describe('PiiScrubber', () => {
+  const scrubber = new PiiScrubber();
+
+  it('scrubs emails, phone numbers, card numbers, JWTs and bearer tokens', () => {
+    expect(scrubber.scrubString('contact jane@example.com')).toBe('contact [Filtered]');
+    expect(scrubber.scrubString('call +1 415-555-0100')).toBe('call [Filtered]');
+    expect(scrubber.scrubString('card 4111 1111 1111 1111')).toBe('card [Filtered]');
+    expect(scrubber.scrubString('jwt eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl')).toBe('jwt [Filtered]');
+    expect(scrubber.scrubString('Authorization: Bearer abc.def-123')).toBe('Authorization: Bearer [Filtered]');
+  });
+
+  it('leaves epoch millisecond timestamps alone', () => {
+    expect(scrubber.scrubString('at 1704067200000')).toBe('at 1704067200000');
+  });
+
+  it('strips URL query values but keeps stack frame positions', () => {
+    expect(scrubber.scrubString('GET https://api.example.com/users?token=abc&page=2')).toBe(
+      'GET https://api.example.com/users?token=[Filtered]&page=[Filtered]'
+    );
+    expect(scrubber.scrubString('at foo (https://cdn.example.com/app.js:10:20)')).toBe(
+      'at foo (https://cdn.example.com/app.js:10:20)'
+    );
+  });
+
+  it('replaces denylisted metadata keys at any depth', () => {
+    const scrubbed = scrubber.scrubRecord({
+      password: 'hunter2',
+      nested: { 'Access-Token': 'abc', count: 3 },
+    });
+    expect(scrubbed).toEqual({ password: '[Filtered]', nested: { 'Access-Token': '[Filtered]', count: 3 } });
+  });
+
+  it('respects disabled patterns and custom replacement', () => {
+    const custom = new PiiScrubber({ patterns: { email: false }, replacement: '***' });
+    expect(custom.scrubString('jane@example.com 4111111111111111')).toBe('jane@example.com ***');
+  });
+
+  it('scrubs messages, metadata and tags of events', () => {
+    const scrubbed = scrubber.scrubEvent(
+      event({ message: 'failed for jane@example.com', metadata: { email: 'jane@example.com' }, tags: { owner: 'jane@example.com' } })
+    );
+    expect(scrubbed.message).toBe('failed for [Filtered]');
+    expect(scrubbed.metadata).toEqual({ email: '[Filtered]' });
+    expect(scrubbed.tags).toEqual({ owner: '[Filtered]' });
+  });
+
+  it('scrubs the identified user email by default', () => {
+    const scrubbed = scrubber.scrubEvent(
+      event({ userEmail: 'jane@example', metadata: { userEmail: 'jane@example', userId: 'u1' } })
+    );
+    expect(scrubbed.userEmail).toBe('[Filtered]');
+    expect(scrubbed.metadata).toEqual({ userEmail: '[Filtered]', userId: 'u1' });
+  });
+
+  it('keeps the identified user email when scrubUserEmail is false', () => {
+    const scrubbed = new PiiScrubber({ scrubUserEmail: false, patterns: { email: false } }).scrubEvent(
+      event({ userEmail: 'jane@example.com', metadata: { userEmail: 'jane@example.com' } })
+    );
+    expect(scrubbed.userEmail).toBe('jane@example.com');
+    expect(scrubbed.metadata).toEqual({ userEmail: 'jane@example.com' });
+  });
+});
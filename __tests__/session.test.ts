@@ -0,0 +1,65 @@
+import { MemoryStorageAdapter } from '../src/utils/storage-adapter';
+import { SessionStatus } from '../src/models';
+import { loadSdk, offline, QueuedEvent, queuedEvents, wait } from './helpers';
+
+describe('session restore', () => {
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+  /** Launch with the session the previous launch persisted and return the queued session events */
+  async function relaunch(previous: Record<string, unknown>): Promise<QueuedEvent[]> {
+    const storage = new MemoryStorageAdapter();
+    await storage.setItem(
+      'telling_session',
+      JSON.stringify({
+        sessionId: 'previous',
+        startTime: minutesAgo(30),
+        lastActivity: minutesAgo(1),
+        status: SessionStatus.Ok,
+        errorCount: 0,
+        foreground: false,
+        ...previous,
+      })
+    );
+
+    const logger = loadSdk().TellingLogger.instance;
+    await logger.init('key', { storage, connectivity: offline });
+    logger.dispose();
+    await wait(150);
+    return (await queuedEvents(storage)).filter((e) => e.message.startsWith('Session'));
+  }
+
+  it('resumes a session left in the background recently', async () => {
+    const events = await relaunch({});
+
+    expect(events.map((e) => e.message)).toEqual(['Session resumed']);
+    expect(events[0].metadata?.sessionId).toBe('previous');
+  });
+
+  it('ends a session left in the background too long as exited', async () => {
+    const events = await relaunch({ lastActivity: minutesAgo(10) });
+
+    expect(events.map((e) => e.message)).toEqual(['Session ended', 'Session started']);
+    expect(events[0].metadata).toMatchObject({ sessionId: 'previous', status: SessionStatus.Exited });
+    expect(events[1].metadata?.previousSessionId).toBe('previous');
+  });
+
+  it('ends a session that reported a fatal crash as crashed', async () => {
+    const events = await relaunch({ status: SessionStatus.Crashed });
+
+    expect(events.map((e) => e.message)).toEqual(['Session ended', 'Session started']);
+    expect(events[0].metadata).toMatchObject({ sessionId: 'previous', status: SessionStatus.Crashed });
+  });
+
+  it('ends a session that died in the foreground as abnormal', async () => {
+    const lastActivity = minutesAgo(1);
+    const events = await relaunch({ lastActivity, foreground: true });
+
+    expect(events.map((e) => e.message)).toEqual(['Session ended', 'Session started']);
+    // The last activity is the latest time the app is known to have been alive
+    expect(events[0].metadata).toMatchObject({
+      sessionId: 'previous',
+      status: SessionStatus.Abnormal,
+      endTime: lastActivity,
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { SourceMapConsumer } from '../src/symbolication/source-map';
+
+const map = {
+  version: 3,
+  sources: ['app.ts'],
+  sourceRoot: 'src',
+  names: ['render', 'submit'],
+  // line 1: col 0 -> app.ts:1:0 render, col 4 -> app.ts:1:4 submit
+  // line 2: col 0 -> app.ts:2:4
+  mappings: 'AAAAA,IAAIC;AACA',
+};
+
+describe('SourceMapConsumer', () => {
+  const consumer = new SourceMapConsumer(map);
+
+  it('maps generated positions to original sources and names', () => {
+    expect(consumer.originalPositionFor(1, 0)).toEqual({ source: 'src/app.ts', line: 1, column: 0, name: 'render' });
+    expect(consumer.originalPositionFor(1, 6)).toEqual({ source: 'src/app.ts', line: 1, column: 4, name: 'submit' });
+    expect(consumer.originalPositionFor(2, 10)).toMatchObject({ source: 'src/app.ts', line: 2, column: 4 });
+  });
+
+  it('returns undefined for unmapped lines', () => {
+    expect(consumer.originalPositionFor(5, 0)).toBeUndefined();
+  });
+
+  it('resolves positions inside indexed map sections', () => {
+    const indexed = new SourceMapConsumer({
+      version: 3,
+      sections: [
+        { offset: { line: 0, column: 0 }, map: { version: 3, sources: ['a.ts'], names: [], mappings: 'AAAA' } },
+        { offset: { line: 10, column: 0 }, map: { ...map, sourceRoot: undefined } },
+      ],
+    });
+    expect(indexed.originalPositionFor(1, 0)).toMatchObject({ source: 'a.ts', line: 1 });
+    expect(indexed.originalPositionFor(11, 5)).toMatchObject({ source: 'app.ts', line: 1, column: 4, name: 'submit' });
+  });
+});
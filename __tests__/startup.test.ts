@@ -0,0 +1,34 @@
+import { monotonicNow } from '../src/utils/clock';
+
+const globals = globalThis as { __BUNDLE_START_TIME__?: number };
+
+function loadBundleStartTime(): number {
+  let startTime!: number;
+  jest.isolateModules(() => {
+    startTime = (require('../src/tracing/startup') as typeof import('../src/tracing/startup')).getBundleStartTime();
+  });
+  return startTime;
+}
+
+describe('getBundleStartTime', () => {
+  afterEach(() => {
+    delete globals.__BUNDLE_START_TIME__;
+  });
+
+  it("uses the start time recorded by Metro's prelude", () => {
+    globals.__BUNDLE_START_TIME__ = monotonicNow() - 1500;
+    expect(loadBundleStartTime()).toBe(globals.__BUNDLE_START_TIME__);
+  });
+
+  it('falls back to module evaluation time when Metro did not record one', () => {
+    const before = monotonicNow();
+    const startTime = loadBundleStartTime();
+    expect(startTime).toBeGreaterThanOrEqual(before);
+    expect(startTime).toBeLessThanOrEqual(monotonicNow());
+  });
+
+  it('ignores a start time from the wall clock', () => {
+    globals.__BUNDLE_START_TIME__ = Date.now();
+    expect(loadBundleStartTime()).toBeLessThanOrEqual(monotonicNow());
+  });
+});
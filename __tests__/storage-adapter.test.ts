@@ -0,0 +1,30 @@
+import { createNamespacedStorage, MemoryStorageAdapter } from '../src/utils/storage-adapter';
+import { getStorageItems, removeStorageItems, setStorageItem } from '../src/utils/storage';
+
+describe('storage adapters', () => {
+  it('isolates namespaced keys from the shared store', async () => {
+    const storage = new MemoryStorageAdapter();
+    const partner = createNamespacedStorage(storage, 'partner');
+    await storage.setItem('telling_consent', 'main');
+    await partner.setItem('telling_consent', 'partner');
+
+    expect(await storage.getItem('telling_consent')).toBe('main');
+    expect(await partner.getItem('telling_consent')).toBe('partner');
+    expect(await partner.getAllKeys()).toEqual(['telling_consent']);
+    expect(await storage.getAllKeys()).toEqual(['telling_consent', 'partner:telling_consent']);
+  });
+
+  it('falls back to single-key calls when batched ones are missing', async () => {
+    const storage = new MemoryStorageAdapter();
+    await setStorageItem(storage, 'a', '1');
+    await setStorageItem(storage, 'b', '2');
+
+    expect(await getStorageItems(storage, ['a', 'b', 'c'])).toEqual([
+      ['a', '1'],
+      ['b', '2'],
+      ['c', null],
+    ]);
+    await removeStorageItems(storage, ['a', 'b']);
+    expect(await storage.getAllKeys()).toEqual([]);
+  });
+});
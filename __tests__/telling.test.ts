@@ -0,0 +1,362 @@
+import { ConsentStatus, createLogEvent, logEventToJson, LogLevel, LogType, resolveConsent } from '../src/models';
+import type { InitOptions } from '../src/telling';
+import {
+  loadSdk,
+  offline,
+  QUEUE_PREFIX,
+  queuedEvents,
+  queuedMessages,
+  recordingTransport,
+  SlowStorageAdapter,
+  stalledTransport,
+  wait,
+} from './helpers';
+
+describe('TellingLogger', () => {
+  it('keeps the queue from the previous launch when logging during init', async () => {
+    const storage = new SlowStorageAdapter();
+    const unsent = createLogEvent({
+      type: LogType.General,
+      level: LogLevel.Info,
+      message: 'from last launch',
+      timestamp: '2024-01-01T00:00:00.000Z',
+    });
+    await storage.setItem(`${QUEUE_PREFIX}0`, JSON.stringify([logEventToJson(unsent)]));
+
+    const { TellingLogger } = loadSdk();
+    const logger = TellingLogger.instance;
+    const init = logger.init('key', { storage, connectivity: offline });
+    await wait(0);
+    logger.log('during init');
+    await init;
+    logger.dispose();
+    await wait(150);
+
+    const messages = await queuedMessages(storage);
+    expect(messages[0]).toBe('from last launch');
+    expect(messages).toContain('during init');
+  });
+
+  it('writes crash events to storage without waiting for the write delay', async () => {
+    const storage = new SlowStorageAdapter(0);
+    const { TellingLogger } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage, connectivity: offline });
+    await wait(150);
+
+    logger.captureException({ error: new Error('about to die') });
+    logger.log('fatal', { level: LogLevel.Fatal });
+    await wait(20);
+    const messages = await queuedMessages(storage);
+    logger.dispose();
+
+    expect(messages).toEqual(expect.arrayContaining(['about to die', 'fatal']));
+  });
+
+  it('drops an event that fails after async processing and skips a rejecting processor', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+
+    const transport = recordingTransport();
+    const { TellingLogger, cycleAppState } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage: new SlowStorageAdapter(0), transport });
+    logger.addEventProcessor(async (event) => {
+      if (event.message !== 'poisoned') return event;
+      // A getter that throws makes the event fail later in the pipeline
+      return Object.defineProperty({ ...event }, 'message', {
+        get() {
+          throw new Error('boom');
+        },
+      });
+    });
+    logger.addEventProcessor(async (event) => {
+      if (event.message === 'rejected') throw new Error('processor failed');
+      return event;
+    });
+
+    logger.log('poisoned');
+    logger.log('rejected');
+    await wait(50);
+    cycleAppState();
+    await wait(10);
+    logger.dispose();
+    process.off('unhandledRejection', unhandled);
+
+    expect(unhandled).not.toHaveBeenCalled();
+    const messages = transport.batches.flat().map((e) => e.message);
+    expect(messages).not.toContain('poisoned');
+    // A rejecting processor is skipped, like a throwing sync one
+    expect(messages).toContain('rejected');
+  });
+
+  it('reports app start once per process across clients', async () => {
+    const transport = recordingTransport();
+    const clientTransport = recordingTransport();
+    const { TellingLogger, createClient, cycleAppState } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage: new SlowStorageAdapter(0), transport });
+    const client = await createClient('other-key', { storage: new SlowStorageAdapter(0), transport: clientTransport });
+    logger.markAppReady();
+    client.markAppReady();
+    cycleAppState();
+    await wait(10);
+    logger.dispose();
+    client.dispose();
+
+    const appStarts = (t: typeof transport) =>
+      t.batches.flat().filter((e) => e.message === 'app_start' && e.metadata?.phase !== 'first_frame');
+    expect(appStarts(transport).map((e) => e.metadata?.phase)).toEqual(['init', 'ready']);
+    expect(appStarts(clientTransport)).toHaveLength(0);
+  });
+
+  it('sends the init and ready app start phases flushed together', async () => {
+    const transport = recordingTransport();
+    const { TellingLogger, cycleAppState } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage: new SlowStorageAdapter(0), transport });
+    logger.markAppReady();
+    cycleAppState();
+    await wait(10);
+    logger.dispose();
+
+    const phases = transport.batches
+      .flat()
+      .filter((e) => e.message === 'app_start')
+      .map((e) => e.metadata?.phase);
+    expect(phases).toEqual(expect.arrayContaining(['init', 'ready']));
+  });
+
+  it('resets identity and stops persisting after opting out', async () => {
+    const storage = new SlowStorageAdapter(0);
+    const { TellingLogger } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage, connectivity: offline });
+    logger.register({ flavor: 'pro' });
+    logger.setUserProperty('plan', 'team');
+    const anonymousId = logger.getAnonymousId();
+
+    await logger.optOut();
+    expect(logger.getSuperProperties()).toEqual({});
+    expect(logger.getUserProperty('plan')).toBeUndefined();
+    expect(logger.getAnonymousId()).not.toBe(anonymousId);
+
+    logger.register({ variant: 'B' });
+    logger.setUserProperty('plan', 'free');
+    logger.clearUser();
+    logger.dispose();
+    await wait(50);
+
+    expect(await storage.getAllKeys()).toEqual(['telling_consent']);
+  });
+
+  it('does not store or send events logged during init after a previous opt-out', async () => {
+    const storage = new SlowStorageAdapter();
+    const optedOut = resolveConsent({} as Parameters<typeof resolveConsent>[0], ConsentStatus.Denied);
+    await storage.setItem('telling_consent', JSON.stringify(optedOut));
+
+    const transport = recordingTransport();
+    const { TellingLogger, cycleAppState } = loadSdk();
+    const logger = TellingLogger.instance;
+    const init = logger.init('key', { storage, transport });
+    logger.log('during init secret');
+    await init;
+    await wait(150);
+    expect(await storage.getAllKeys()).toEqual(['telling_consent']);
+
+    logger.setConsent(ConsentStatus.Granted);
+    cycleAppState();
+    await wait(10);
+    logger.dispose();
+
+    expect(transport.batches.flat().map((e) => e.message)).not.toContain('during init secret');
+  });
+
+  it('anonymizes identifiers nested in metadata and tags when forgetting a user', async () => {
+    const storage = new SlowStorageAdapter(0);
+    const { TellingLogger } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage, connectivity: offline });
+    logger.setUser({ userId: 'user-42', userName: 'Ada' });
+    const anonymousId = logger.getAnonymousId()!;
+
+    logger.setTag('owner', 'user-42');
+    logger.setContext('account', { owner: { id: 'user-42', name: 'Ada' }, members: ['user-42', 'user-7'] });
+    logger.addBreadcrumb({ category: 'auth', message: 'signed in', data: { userId: 'user-42', device: anonymousId } });
+    logger.captureException({ error: new Error('boom') });
+    logger.log('profile viewed', { metadata: { properties: { viewer: 'user-42', profile: 'user-7' } } });
+
+    await logger.forgetUser({ mode: 'anonymize' });
+    logger.dispose();
+
+    const events = (await queuedEvents(storage)).filter((e) => e.metadata?.telling_action !== 'delete_user_data');
+    const json = JSON.stringify(events);
+    expect(json).not.toContain('user-42');
+    expect(json).not.toContain(anonymousId);
+    expect(json).not.toContain('Ada');
+    expect(json).toContain('user-7');
+    const breadcrumbs = events.find((e) => e.message === 'boom')?.metadata?.breadcrumbs as Array<{ message: string }>;
+    expect(breadcrumbs.find((b) => b.message === 'signed in')).toMatchObject({ data: {} });
+  });
+
+  it('records only the caller metadata on analytics breadcrumbs', async () => {
+    const storage = new SlowStorageAdapter(0);
+    const { TellingLogger } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage, connectivity: offline });
+    logger.register({ flavor: 'pro' });
+    logger.setContext('cart', { items: 3 });
+    logger.event('purchase', { sku: 'sku-1' });
+    logger.captureException({ error: new Error('checkout failed') });
+    logger.dispose();
+    await wait(150);
+
+    const crash = (await queuedEvents(storage)).find((e) => e.message === 'checkout failed');
+    const breadcrumbs = crash?.metadata?.breadcrumbs as Array<{ message: string; data?: unknown }>;
+    expect(breadcrumbs.find((b) => b.message === 'purchase')?.data).toEqual({ sku: 'sku-1' });
+  });
+
+  it('merges properties set during init with the stored ones', async () => {
+    const storage = new SlowStorageAdapter();
+    await storage.setItem('telling_super_properties', JSON.stringify({ flavor: 'pro' }));
+    await storage.setItem('telling_user_properties', JSON.stringify({ plan: 'team' }));
+
+    const { TellingLogger } = loadSdk();
+    const logger = TellingLogger.instance;
+    const init = logger.init('key', { storage, connectivity: offline });
+    logger.register({ variant: 'B' });
+    logger.setUserProperty('role', 'admin');
+    await init;
+    logger.dispose();
+    await wait(50);
+
+    expect(JSON.parse((await storage.getItem('telling_super_properties'))!)).toEqual({ flavor: 'pro', variant: 'B' });
+    expect(JSON.parse((await storage.getItem('telling_user_properties'))!)).toEqual({ plan: 'team', role: 'admin' });
+  });
+
+  it('sends distinct crashes that share a fingerprint and collapses exact repeats', async () => {
+    const storage = new SlowStorageAdapter(0);
+    const crash = (message: string) =>
+      logEventToJson(
+        createLogEvent({
+          type: LogType.Crash,
+          level: LogLevel.Fatal,
+          message,
+          timestamp: '2024-01-01T00:00:00.000Z',
+          stackTrace: '    at anonymous (address at index.android.bundle:1:123456)',
+          fingerprint: 'shared',
+        })
+      );
+    const crashes = [crash('Network request failed'), crash('Network request failed'), crash('Invalid date')];
+    await storage.setItem(`${QUEUE_PREFIX}0`, JSON.stringify(crashes));
+
+    const transport = recordingTransport();
+    const { TellingLogger } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage, transport });
+    await wait(10);
+    logger.dispose();
+
+    const messages = transport.batches.flat().map((e) => e.message);
+    expect(messages.filter((m) => m === 'Network request failed')).toHaveLength(1);
+    expect(messages).toContain('Invalid date');
+  });
+
+  it('does not requeue events of a forgotten user from a failed in-flight send', async () => {
+    const storage = new SlowStorageAdapter(0);
+    const transport = stalledTransport();
+    const { TellingLogger, cycleAppState } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage, transport });
+    logger.setUser({ userId: 'u-1' });
+    logger.log('user secret');
+    cycleAppState();
+    await wait(10);
+    expect(transport.inFlight).toBeGreaterThan(0);
+
+    await logger.forgetUser();
+    transport.failAll();
+    await wait(10);
+    logger.dispose();
+    await wait(150);
+
+    const queued = await queuedEvents(storage);
+    expect(queued.map((e) => e.message)).not.toContain('user secret');
+    expect(queued.filter((e) => e.userId === 'u-1').map((e) => e.message)).toEqual(['Delete user data']);
+  });
+
+  describe('deletion requests', () => {
+    beforeEach(() => {
+      // Only Date and intervals are faked, so backoff and rate limits can be skipped past
+      jest.useFakeTimers({ doNotFake: ['setTimeout', 'clearTimeout', 'setImmediate', 'nextTick', 'queueMicrotask'] });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const advance = (ms: number) => jest.setSystemTime(Date.now() + ms);
+
+    async function forgetUser(options: InitOptions) {
+      const storage = new SlowStorageAdapter(0);
+      const sdk = loadSdk();
+      const logger = sdk.TellingLogger.instance;
+      await logger.init('key', { storage, ...options });
+      logger.setUser({ userId: 'u-1' });
+      await logger.forgetUser();
+      return { ...sdk, logger, storage };
+    }
+
+    it('survives any number of failed sends', async () => {
+      const recording = recordingTransport();
+      const transport: typeof recording = {
+        ...recording,
+        sendBatch: async (request) => {
+          await recording.sendBatch(request);
+          throw new Error('Network request failed');
+        },
+      };
+      const { logger, storage, cycleAppState } = await forgetUser({ transport });
+      for (let i = 0; i < 8; i++) {
+        advance(24 * 60 * 60 * 1000);
+        cycleAppState();
+        await wait(10);
+      }
+      logger.dispose();
+      await wait(150);
+
+      // Each resume also reports a warm start
+      const sent = transport.batches.map((batch) => batch.map((e) => e.message));
+      expect(sent.length).toBeGreaterThan(5);
+      expect(sent[sent.length - 1]).toContain('Delete user data');
+      expect(await queuedMessages(storage)).toContain('Delete user data');
+    });
+
+    it('is kept when the server rejects the batch', async () => {
+      const transport = recordingTransport(400);
+      const { logger, storage, cycleAppState } = await forgetUser({ transport });
+      logger.log('after forget');
+      cycleAppState();
+      await wait(10);
+      logger.dispose();
+      await wait(150);
+
+      expect(transport.batches.flat().map((e) => e.message)).toContain('after forget');
+      expect(await queuedMessages(storage)).toEqual(['Delete user data']);
+    });
+
+    it('is not trimmed when the buffer is full', async () => {
+      const { logger, storage } = await forgetUser({ connectivity: offline });
+      for (let i = 0; i < 600; i++) {
+        if (i % 10 === 0) advance(1000);
+        logger.log(`event ${i}`);
+      }
+      logger.dispose();
+      await wait(150);
+
+      const messages = await queuedMessages(storage);
+      expect(messages).toContain('Delete user data');
+      expect(messages).not.toContain('event 0');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { ungzip } from 'pako';
+import { DEFAULT_BASE_URL, FetchTransport } from '../src/transport/fetch-transport';
+import type { SendBatchRequest, Transport } from '../src/transport';
+import { loadSdk, SlowStorageAdapter, wait } from './helpers';
+
+function mockFetch(status = 200, body: unknown = {}): jest.Mock {
+  const fetchMock = jest.fn(async () => new Response(JSON.stringify(body), { status, headers: { 'Retry-After': '3' } }));
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+describe('FetchTransport', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('posts batches to the logs endpoint of the base URL', async () => {
+    const fetchMock = mockFetch(429);
+    const transport = new FetchTransport('https://logs.example.com/api/v2/');
+
+    const response = await transport.sendBatch({ apiKey: 'key', payload: '[]', compressed: true });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://logs.example.com/api/v2/logs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': 'key', 'Content-Encoding': 'gzip' },
+      body: '[]',
+    });
+    expect(response).toEqual({ status: 429, headers: expect.objectContaining({ 'retry-after': '3' }) });
+  });
+
+  it('checks the version against the default endpoint', async () => {
+    const fetchMock = mockFetch(200, { updateRequired: false });
+
+    const response = await new FetchTransport().fetchVersionCheck({ apiKey: 'key', platform: 'ios', version: '1.0 beta' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(`${DEFAULT_BASE_URL}/project/version-check?platform=ios&version=1.0%20beta`);
+    expect(response.body).toEqual({ updateRequired: false });
+  });
+
+  it('is created from the baseUrl init option', async () => {
+    const fetchMock = mockFetch();
+    const { TellingLogger } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage: new SlowStorageAdapter(0), baseUrl: 'https://self-hosted.example.com' });
+    await wait(10);
+    logger.dispose();
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://self-hosted.example.com/logs');
+  });
+});
+
+describe('custom transport', () => {
+  it('receives batches with the API key, gzipped once they are large', async () => {
+    const requests: SendBatchRequest[] = [];
+    const transport: Transport = {
+      sendBatch: async (request) => {
+        requests.push(request);
+        return { status: 200 };
+      },
+      fetchVersionCheck: async () => ({ status: 200 }),
+    };
+    const { TellingLogger } = loadSdk();
+    const logger = TellingLogger.instance;
+    await logger.init('key', { storage: new SlowStorageAdapter(0), transport });
+    await wait(10);
+    logger.dispose();
+
+    expect(requests.length).toBeGreaterThan(0);
+    const request = requests[0];
+    expect(request.apiKey).toBe('key');
+    const json = request.compressed
+      ? ungzip(request.payload as Uint8Array, { to: 'string' })
+      : (request.payload as string);
+    expect(Array.isArray(JSON.parse(json))).toBe(true);
+    expect(request.compressed).toBe(json.length > 1024);
+  });
+});
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'fs';
+import { SourceMapConsumer, RawSourceMap, symbolicateEvent } from '../symbolication';
+
+const USAGE = `Usage: telling-symbolicate <events.json|events.ndjson> <bundle.map> [options]
+
+Rewrites stackTraceElements of exported Telling crash events to original
+source locations using a Metro or Hermes source map. Works fully offline.
+
+Options:
+  -o, --output <file>     Write the result to a file instead of stdout
+  --column-start <0|1>    Column base used in the crash report (default: 1)
+  --bundle <name>         Only rewrite frames whose file ends with <name>
+  -h, --help              Show this message`;
+
+interface CliArgs {
+  eventsPath: string;
+  sourceMapPath: string;
+  outputPath?: string;
+  columnStart: 0 | 1;
+  bundle?: string;
+}
+
+function fail(message: string): never {
+  process.stderr.write(`telling-symbolicate: ${message}\n\n${USAGE}\n`);
+  process.exit(1);
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const positional: string[] = [];
+  let outputPath: string | undefined;
+  let columnStart: 0 | 1 = 1;
+  let bundle: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      process.stdout.write(`${USAGE}\n`);
+      process.exit(0);
+    } else if (arg === '-o' || arg === '--output') {
+      outputPath = argv[++i] ?? fail(`${arg} requires a value`);
+    } else if (arg === '--column-start') {
+      const value = argv[++i];
+      if (value !== '0' && value !== '1') fail('--column-start must be 0 or 1');
+      columnStart = value === '0' ? 0 : 1;
+    } else if (arg === '--bundle') {
+      bundle = argv[++i] ?? fail('--bundle requires a value');
+    } else if (arg.startsWith('-')) {
+      fail(`unknown option ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length !== 2) fail('expected an events file and a source map file');
+  return { eventsPath: positional[0], sourceMapPath: positional[1], outputPath, columnStart, bundle };
+}
+
+/**
+ * Parse a JSON event, a JSON array of events, or NDJSON
+ */
+function parseEvents(content: string): { events: Record<string, unknown>[]; format: 'object' | 'array' | 'ndjson' } {
+  const trimmed = content.trim();
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    if (Array.isArray(parsed)) {
+      return { events: parsed as Record<string, unknown>[], format: 'array' };
+    }
+    return { events: [parsed as Record<string, unknown>], format: 'object' };
+  } catch {
+    const events = trimmed
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as Record<string, unknown>;
+        } catch {
+          return fail(`line ${index + 1} is not valid JSON`);
+        }
+      });
+    return { events, format: 'ndjson' };
+  }
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+
+  let consumer: SourceMapConsumer;
+  try {
+    consumer = new SourceMapConsumer(JSON.parse(readFileSync(args.sourceMapPath, 'utf8')) as RawSourceMap);
+  } catch (error) {
+    return fail(`could not read source map: ${(error as Error).message}`);
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(args.eventsPath, 'utf8');
+  } catch (error) {
+    return fail(`could not read events: ${(error as Error).message}`);
+  }
+
+  const { events, format } = parseEvents(content);
+  const symbolicated = events.map((event) => symbolicateEvent(event, consumer, { columnStart: args.columnStart, bundle: args.bundle }));
+
+  const output =
+    format === 'ndjson'
+      ? `${symbolicated.map((event) => JSON.stringify(event)).join('\n')}\n`
+      : `${JSON.stringify(format === 'array' ? symbolicated : symbolicated[0], null, 2)}\n`;
+
+  if (args.outputPath) {
+    writeFileSync(args.outputPath, output);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main();
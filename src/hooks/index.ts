@@ -1,2 +1,4 @@
 export { useTelling } from './use-telling';
 export { withTelling } from './with-telling';
+export { TellingProvider, useTellingClient } from './telling-context';
+export type { TellingProviderProps } from './telling-context';
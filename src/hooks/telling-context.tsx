@@ -0,0 +1,26 @@
+import React, { createContext, useContext } from 'react';
+import { TellingLogger } from '../telling';
+
+const TellingContext = createContext<TellingLogger | undefined>(undefined);
+
+interface TellingProviderProps {
+  client: TellingLogger;
+  children?: React.ReactNode;
+}
+
+/**
+ * Makes a client available to `useTelling`, `withTelling` and `useTellingClient` below it
+ */
+export function TellingProvider({ client, children }: TellingProviderProps): React.ReactElement {
+  return <TellingContext.Provider value={client}>{children}</TellingContext.Provider>;
+}
+
+/**
+ * Resolve the client to report to: an explicit client, then the nearest provider, then the shared instance
+ */
+export function useTellingClient(client?: TellingLogger): TellingLogger {
+  const contextClient = useContext(TellingContext);
+  return client ?? contextClient ?? TellingLogger.instance;
+}
+
+export type { TellingProviderProps };
@@ -1,12 +1,15 @@
 import { useEffect, useRef } from 'react';
 import { TellingLogger } from '../telling';
 import { LogLevel, LogType } from '../models';
+import { useTellingClient } from './telling-context';
 
 interface UseTellingOptions {
   type?: LogType;
   level?: LogLevel;
   metadata?: Record<string, unknown>;
   trackOnce?: boolean;
+  /** Client to report to. Defaults to the nearest `TellingProvider`, then the shared instance. */
+  client?: TellingLogger;
 }
 
 /**
@@ -20,6 +23,7 @@ export function useTelling(name: string, options: UseTellingOptions = {}): void
     trackOnce = true,
   } = options;
 
+  const client = useTellingClient(options.client);
   const hasTracked = useRef(false);
 
   useEffect(() => {
@@ -27,7 +31,7 @@ export function useTelling(name: string, options: UseTellingOptions = {}): void
       return;
     }
 
-    TellingLogger.instance.log(`View: ${name}`, {
+    client.log(`View: ${name}`, {
       level,
       type,
       metadata: {
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import { TellingLogger } from '../telling';
 import { LogLevel, LogType } from '../models';
+import { useTellingClient } from './telling-context';
 
 interface WithTellingOptions<P> {
   name?: string;
@@ -8,6 +9,8 @@ interface WithTellingOptions<P> {
   level?: LogLevel;
   metadata?: Record<string, unknown> | ((props: P) => Record<string, unknown>);
   trackOnce?: boolean;
+  /** Client to report to. Defaults to the nearest `TellingProvider`, then the shared instance. */
+  client?: TellingLogger;
 }
 
 /**
@@ -26,6 +29,7 @@ export function withTelling<P extends object>(
   } = options;
 
   const WrappedComponent: React.FC<P> = (props) => {
+    const client = useTellingClient(options.client);
     const hasTracked = useRef(false);
     const displayName = name || Component.displayName || Component.name || 'Unknown';
 
@@ -36,7 +40,7 @@ export function withTelling<P extends object>(
 
       const resolvedMetadata = typeof metadata === 'function' ? metadata(props) : metadata;
 
-      TellingLogger.instance.log(`View: ${displayName}`, {
+      client.log(`View: ${displayName}`, {
         level,
         type,
         metadata: {
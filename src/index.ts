@@ -1,18 +1,69 @@
 // Main class
-export { TellingLogger } from './telling';
-export type { InitOptions, LogOptions, FunnelOptions, ExceptionOptions, UserOptions } from './telling';
+export { TellingLogger, createClient } from './telling';
+export type {
+  InitOptions,
+  DeliveryReport,
+  AuthError,
+  LogOptions,
+  BreadcrumbOptions,
+  NetworkTrackingOptions,
+  ConsoleCaptureOptions,
+  FunnelOptions,
+  ExceptionOptions,
+  UserOptions,
+  ForgetUserOptions,
+} from './telling';
 
 // Models
-export { LogLevel, LogType } from './models';
-export type { LogEvent, DeviceMetadata, Session, VersionCheckResult } from './models';
+export { LogLevel, LogType, BreadcrumbCategory, ConsentStatus, ConsentCategory, SessionStatus } from './models';
+export type {
+  LogEvent,
+  DeviceMetadata,
+  Session,
+  VersionCheckResult,
+  Breadcrumb,
+  ConsentState,
+  ConsentInput,
+} from './models';
 export { noUpdateRequired } from './models';
 
+// Scope
+export { Scope } from './scope';
+
+// Tracing
+export { Span, Transaction, SpanStatus } from './tracing';
+export type { SpanOptions } from './tracing';
+
+// Transport
+export { FetchTransport, DEFAULT_BASE_URL, createNetInfoConnectivityProvider } from './transport';
+export type {
+  Transport,
+  TransportResponse,
+  SendBatchRequest,
+  VersionCheckRequest,
+  ConnectivityProvider,
+  DeliveryOutcome,
+} from './transport';
+
 // Navigation
 export { createScreenTracker } from './navigation';
+export type { ScreenTrackerOptions, ActiveRoute } from './navigation';
 
 // Hooks & HOC
 export { useTelling } from './hooks';
 export { withTelling } from './hooks';
+export { TellingProvider, useTellingClient } from './hooks';
+export type { TellingProviderProps } from './hooks';
 
 // Utilities
 export { tryRun, tryRunVoid, tryRunSync } from './utils';
+export { PiiScrubber, asyncStorageAdapter, MemoryStorageAdapter, createNamespacedStorage } from './utils';
+export type {
+  EventProcessor,
+  BeforeBreadcrumbCallback,
+  ScrubOptions,
+  ScrubPatterns,
+  SamplingOptions,
+  SamplingRule,
+  StorageAdapter,
+} from './utils';
@@ -0,0 +1,83 @@
+/**
+ * Opt-in capture of console calls.
+ */
+
+export type ConsoleLevel = 'debug' | 'log' | 'info' | 'warn' | 'error';
+
+export interface ConsoleCall {
+  level: ConsoleLevel;
+  message: string;
+  args: unknown[];
+  /** Stack of the first Error argument, or of the console call itself */
+  stackTrace?: string;
+}
+
+/** Output written by the SDK itself, via debug logs or console mirroring */
+const SDK_OUTPUT_PATTERN = /^\[?Telling\b/;
+
+function formatArg(arg: unknown): string {
+  if (typeof arg === 'string') return arg;
+  if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
+  try {
+    return JSON.stringify(arg) ?? String(arg);
+  } catch {
+    return String(arg);
+  }
+}
+
+/**
+ * Drop the frames belonging to the console wrapper from a captured stack
+ */
+function captureCallerStack(): string | undefined {
+  const stack = new Error().stack;
+  if (!stack) return undefined;
+  const lines = stack.split('\n');
+  return [lines[0], ...lines.slice(3)].join('\n');
+}
+
+/**
+ * Patch the given console methods and report each call.
+ * Calls made while a report is being handled, and the SDK's own output, are never reported.
+ * Returns a function that restores the original methods.
+ */
+export function instrumentConsole(onCall: (call: ConsoleCall) => void, levels: ConsoleLevel[]): () => void {
+  let handling = false;
+  const restorers: Array<() => void> = [];
+  const target = console as unknown as Record<ConsoleLevel, (...args: unknown[]) => void>;
+
+  for (const level of levels) {
+    const original = target[level];
+    if (typeof original !== 'function') continue;
+
+    const instrumented = function (this: unknown, ...args: unknown[]): void {
+      original.apply(this, args);
+
+      const isSdkOutput = typeof args[0] === 'string' && SDK_OUTPUT_PATTERN.test(args[0]);
+      if (!handling && !isSdkOutput) {
+        handling = true;
+        try {
+          const error = args.find((arg): arg is Error => arg instanceof Error);
+          onCall({
+            level,
+            message: args.map(formatArg).join(' '),
+            args,
+            stackTrace: error?.stack ?? captureCallerStack(),
+          });
+        } catch {
+          // Never let reporting break the app's console output
+        } finally {
+          handling = false;
+        }
+      }
+    };
+
+    target[level] = instrumented;
+    restorers.push(() => {
+      if (target[level] === instrumented) target[level] = original;
+    });
+  }
+
+  return () => {
+    for (const restore of restorers) restore();
+  };
+}
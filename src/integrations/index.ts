@@ -0,0 +1,4 @@
+export { instrumentNetwork, sanitizeUrl } from './network';
+export type { NetworkRequestInfo, NetworkInstrumentationOptions } from './network';
+export { instrumentConsole } from './console';
+export type { ConsoleLevel, ConsoleCall } from './console';
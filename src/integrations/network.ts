@@ -0,0 +1,153 @@
+/**
+ * Opt-in instrumentation of the global `fetch` and `XMLHttpRequest`.
+ */
+
+export interface NetworkRequestInfo {
+  method: string;
+  /** URL without query string or fragment */
+  url: string;
+  /** HTTP status, undefined when the request failed at the network level */
+  status?: number;
+  durationMs: number;
+  /** Network-level failure message */
+  error?: string;
+}
+
+export interface NetworkInstrumentationOptions {
+  /** Requests whose URL starts with one of these strings or matches one of these patterns are not recorded */
+  ignoreUrls?: Array<string | RegExp>;
+}
+
+type FetchFn = typeof fetch;
+
+interface InstrumentedXhr extends XMLHttpRequest {
+  __tellingRequest?: { method: string; url: string; skip: boolean; startTime?: number };
+}
+
+/**
+ * Remove query string and fragment so URLs never carry tokens or PII
+ */
+export function sanitizeUrl(url: string): string {
+  return url.replace(/[?#].*$/, '');
+}
+
+function resolveFetchArgs(input: unknown, init?: { method?: string }): { method: string; url: string } {
+  if (typeof input === 'string') {
+    return { method: (init?.method ?? 'GET').toUpperCase(), url: input };
+  }
+  const request = input as { url?: string; method?: string; href?: string } | undefined;
+  return {
+    method: (init?.method ?? request?.method ?? 'GET').toUpperCase(),
+    url: request?.url ?? request?.href ?? String(input),
+  };
+}
+
+/**
+ * Wrap global `fetch` and `XMLHttpRequest` and report every completed request.
+ * Returns a function that restores the original implementations.
+ */
+export function instrumentNetwork(
+  onRequest: (info: NetworkRequestInfo) => void,
+  options: NetworkInstrumentationOptions = {}
+): () => void {
+  const ignoreUrls = options.ignoreUrls ?? [];
+  const isIgnored = (url: string): boolean =>
+    ignoreUrls.some((pattern) => (typeof pattern === 'string' ? url.startsWith(pattern) : pattern.test(url)));
+
+  const report = (info: NetworkRequestInfo): void => {
+    try {
+      onRequest(info);
+    } catch {
+      // Never let reporting break the app's request
+    }
+  };
+
+  // React Native implements fetch on top of XMLHttpRequest. While a fetch call is
+  // being dispatched, XHRs opened synchronously belong to it and are not reported twice.
+  let dispatchingFetch = false;
+
+  const restorers: Array<() => void> = [];
+  const globalScope = globalThis as { fetch?: FetchFn; XMLHttpRequest?: typeof XMLHttpRequest };
+
+  const originalFetch = globalScope.fetch;
+  if (typeof originalFetch === 'function') {
+    const instrumentedFetch = function (this: unknown, ...args: Parameters<FetchFn>): ReturnType<FetchFn> {
+      const { method, url } = resolveFetchArgs(args[0], args[1]);
+      const skip = isIgnored(url);
+      const startTime = Date.now();
+
+      let promise: ReturnType<FetchFn>;
+      dispatchingFetch = true;
+      try {
+        promise = originalFetch.apply(this, args);
+      } finally {
+        dispatchingFetch = false;
+      }
+
+      if (skip) return promise;
+
+      return promise.then(
+        (response) => {
+          report({ method, url: sanitizeUrl(url), status: response.status, durationMs: Date.now() - startTime });
+          return response;
+        },
+        (error: unknown) => {
+          report({
+            method,
+            url: sanitizeUrl(url),
+            durationMs: Date.now() - startTime,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
+        }
+      );
+    };
+    globalScope.fetch = instrumentedFetch as FetchFn;
+    restorers.push(() => {
+      if (globalScope.fetch === instrumentedFetch) globalScope.fetch = originalFetch;
+    });
+  }
+
+  const xhrPrototype = globalScope.XMLHttpRequest?.prototype as InstrumentedXhr | undefined;
+  if (xhrPrototype) {
+    const originalOpen = xhrPrototype.open;
+    const originalSend = xhrPrototype.send;
+
+    const instrumentedOpen = function (this: InstrumentedXhr, ...args: unknown[]): void {
+      const method = String(args[0] ?? 'GET').toUpperCase();
+      const url = String(args[1] ?? '');
+      this.__tellingRequest = { method, url, skip: dispatchingFetch || isIgnored(url) };
+      return (originalOpen as (...openArgs: unknown[]) => void).apply(this, args);
+    };
+
+    const instrumentedSend = function (this: InstrumentedXhr, body?: unknown): void {
+      const request = this.__tellingRequest;
+      if (request && !request.skip) {
+        request.startTime = Date.now();
+        const onLoadEnd = (): void => {
+          this.removeEventListener('loadend', onLoadEnd);
+          const durationMs = Date.now() - (request.startTime ?? Date.now());
+          report({
+            method: request.method,
+            url: sanitizeUrl(request.url),
+            durationMs,
+            ...(this.status > 0 ? { status: this.status } : { error: 'Network request failed' }),
+          });
+        };
+        this.addEventListener('loadend', onLoadEnd);
+      }
+      return originalSend.call(this, body as Parameters<XMLHttpRequest['send']>[0]);
+    };
+
+    xhrPrototype.open = instrumentedOpen as XMLHttpRequest['open'];
+    xhrPrototype.send = instrumentedSend;
+    restorers.push(() => {
+      if (xhrPrototype.open === instrumentedOpen) xhrPrototype.open = originalOpen;
+      if (xhrPrototype.send === instrumentedSend) xhrPrototype.send = originalSend;
+    });
+  }
+
+  return () => {
+    for (const restore of restorers) restore();
+  };
+}
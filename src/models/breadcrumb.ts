@@ -0,0 +1,49 @@
+import { LogLevel } from './log-event';
+
+/**
+ * Breadcrumb categories
+ */
+export enum BreadcrumbCategory {
+  Navigation = 'navigation',
+  Http = 'http',
+  Ui = 'ui',
+  Console = 'console',
+  State = 'state',
+  Analytics = 'analytics',
+}
+
+/**
+ * A trail entry recorded before a crash to give it context
+ */
+export interface Breadcrumb {
+  category: BreadcrumbCategory | string;
+  message: string;
+  level: LogLevel;
+  timestamp: string;
+  data?: Record<string, unknown>;
+}
+
+export function createBreadcrumb(
+  params: Omit<Breadcrumb, 'level' | 'timestamp'> & { level?: LogLevel; timestamp?: string }
+): Breadcrumb {
+  return {
+    category: params.category,
+    message: params.message,
+    level: params.level ?? LogLevel.Info,
+    timestamp: params.timestamp ?? new Date().toISOString(),
+    data: params.data,
+  };
+}
+
+export function breadcrumbToJson(breadcrumb: Breadcrumb): Record<string, unknown> {
+  const json: Record<string, unknown> = {
+    category: breadcrumb.category,
+    message: breadcrumb.message,
+    level: breadcrumb.level,
+    timestamp: breadcrumb.timestamp,
+  };
+
+  if (breadcrumb.data && Object.keys(breadcrumb.data).length > 0) json.data = breadcrumb.data;
+
+  return json;
+}
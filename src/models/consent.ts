@@ -0,0 +1,56 @@
+import { LogType } from './log-event';
+
+/**
+ * Whether the user has agreed to a category of tracking
+ */
+export enum ConsentStatus {
+  Granted = 'granted',
+  Denied = 'denied',
+  /** Events are stored locally but not sent until consent is granted */
+  Pending = 'pending',
+}
+
+/**
+ * Tracking categories that can be consented to separately
+ */
+export enum ConsentCategory {
+  Analytics = 'analytics',
+  CrashReporting = 'crash_reporting',
+  Performance = 'performance',
+  Diagnostics = 'diagnostics',
+}
+
+export type ConsentState = Record<ConsentCategory, ConsentStatus>;
+
+/**
+ * Either one status for every category, or a status per category
+ */
+export type ConsentInput = ConsentStatus | Partial<ConsentState>;
+
+export function consentCategoryForType(type: LogType): ConsentCategory {
+  switch (type) {
+    case LogType.Analytics:
+      return ConsentCategory.Analytics;
+    case LogType.Crash:
+      return ConsentCategory.CrashReporting;
+    case LogType.Performance:
+      return ConsentCategory.Performance;
+    default:
+      return ConsentCategory.Diagnostics;
+  }
+}
+
+/**
+ * Apply `input` on top of `base`, ignoring unknown categories and statuses
+ */
+export function resolveConsent(base: ConsentState, input: ConsentInput | undefined): ConsentState {
+  const statuses = Object.values(ConsentStatus) as string[];
+  const resolved = { ...base };
+  for (const category of Object.values(ConsentCategory)) {
+    const status = typeof input === 'string' ? input : input?.[category];
+    if (status && statuses.includes(status)) {
+      resolved[category] = status;
+    }
+  }
+  return resolved;
+}
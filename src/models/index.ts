@@ -8,5 +8,7 @@ export {
   isErrorLevel,
   parseLogType,
 } from './log-event';
-export { Session, getSessionDuration, isSessionActive, sessionToJson } from './session';
+export { BreadcrumbCategory, Breadcrumb, createBreadcrumb, breadcrumbToJson } from './breadcrumb';
+export { Session, SessionStatus, getSessionDuration, isSessionActive, sessionToJson, sessionFromJson } from './session';
 export { VersionCheckResult, noUpdateRequired } from './version-check-result';
+export { ConsentStatus, ConsentCategory, ConsentState, ConsentInput, consentCategoryForType, resolveConsent } from './consent';
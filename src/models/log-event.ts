@@ -38,11 +38,19 @@ export interface LogEvent {
   /** Structured stack trace elements for better crash grouping */
   stackTraceElements?: Array<{ file: string; line: string; method: string; column?: string; class?: string }>;
   metadata?: Record<string, unknown>;
+  /** Searchable key-value tags from the active scope and the log call */
+  tags?: Record<string, string>;
   device?: DeviceMetadata;
   userId?: string;
   userName?: string;
   userEmail?: string;
   sessionId?: string;
+  /** Persisted per-install ID, present on every event so pre-login activity can be linked to the user */
+  anonymousId?: string;
+  /** Sample rate applied to this event, so the backend can re-weight counts */
+  sampleRate?: number;
+  /** Issue grouping key, computed for crash events */
+  fingerprint?: string;
 }
 
 let _counter = 0;
@@ -68,11 +76,15 @@ export function createLogEvent(
     stackTrace: params.stackTrace,
     stackTraceElements: params.stackTraceElements,
     metadata: params.metadata,
+    tags: params.tags,
     device: params.device,
     userId: params.userId,
     userName: params.userName,
     userEmail: params.userEmail,
     sessionId: params.sessionId,
+    anonymousId: params.anonymousId,
+    sampleRate: params.sampleRate,
+    fingerprint: params.fingerprint,
   };
 }
 
@@ -88,11 +100,15 @@ export function logEventToJson(event: LogEvent): Record<string, unknown> {
   if (event.stackTrace) json.stackTrace = event.stackTrace;
   if (event.stackTraceElements) json.stackTraceElements = event.stackTraceElements;
   if (event.metadata) json.metadata = event.metadata;
+  if (event.tags && Object.keys(event.tags).length > 0) json.tags = event.tags;
   if (event.device) json.device = event.device;
   if (event.userId) json.userId = event.userId;
   if (event.userName) json.userName = event.userName;
   if (event.userEmail) json.userEmail = event.userEmail;
   if (event.sessionId) json.sessionId = event.sessionId;
+  if (event.anonymousId) json.anonymousId = event.anonymousId;
+  if (event.sampleRate !== undefined) json.sampleRate = event.sampleRate;
+  if (event.fingerprint) json.fingerprint = event.fingerprint;
 
   return json;
 }
@@ -107,11 +123,15 @@ export function logEventFromJson(json: Record<string, unknown>): LogEvent {
     stackTrace: json.stackTrace as string | undefined,
     stackTraceElements: json.stackTraceElements as LogEvent['stackTraceElements'] | undefined,
     metadata: json.metadata as Record<string, unknown> | undefined,
+    tags: json.tags as Record<string, string> | undefined,
     device: json.device as DeviceMetadata | undefined,
     userId: json.userId as string | undefined,
     userName: json.userName as string | undefined,
     userEmail: json.userEmail as string | undefined,
     sessionId: json.sessionId as string | undefined,
+    anonymousId: json.anonymousId as string | undefined,
+    sampleRate: json.sampleRate as number | undefined,
+    fingerprint: json.fingerprint as string | undefined,
   });
 }
 
@@ -1,7 +1,25 @@
+/**
+ * How a session ended, used to compute crash-free sessions and users
+ */
+export enum SessionStatus {
+  Ok = 'ok',
+  /** Ended normally: timed out, user changed, or the app was closed from the background */
+  Exited = 'exited',
+  /** A fatal crash was reported during the session */
+  Crashed = 'crashed',
+  /** The app died in the foreground without reporting a crash, e.g. out of memory */
+  Abnormal = 'abnormal',
+}
+
 export interface Session {
   sessionId: string;
   startTime: Date;
   endTime?: Date;
+  /** Time of the last event logged in this session */
+  lastActivity?: Date;
+  status?: SessionStatus;
+  /** Number of error-level events logged in this session */
+  errorCount?: number;
   userId?: string;
   userName?: string;
   userEmail?: string;
@@ -23,9 +41,33 @@ export function sessionToJson(session: Session): Record<string, unknown> {
     sessionId: session.sessionId,
     startTime: session.startTime.toISOString(),
     endTime: session.endTime?.toISOString(),
+    lastActivity: session.lastActivity?.toISOString(),
+    status: session.status ?? SessionStatus.Ok,
+    errorCount: session.errorCount ?? 0,
     userId: session.userId,
     userName: session.userName,
     userEmail: session.userEmail,
     duration: getSessionDuration(session),
   };
 }
+
+export function sessionFromJson(json: Record<string, unknown>): Session | undefined {
+  if (typeof json.sessionId !== 'string' || typeof json.startTime !== 'string') return undefined;
+
+  const startTime = new Date(json.startTime);
+  if (isNaN(startTime.getTime())) return undefined;
+
+  return {
+    sessionId: json.sessionId,
+    startTime,
+    endTime: typeof json.endTime === 'string' ? new Date(json.endTime) : undefined,
+    lastActivity: typeof json.lastActivity === 'string' ? new Date(json.lastActivity) : undefined,
+    status: Object.values(SessionStatus).includes(json.status as SessionStatus)
+      ? (json.status as SessionStatus)
+      : undefined,
+    errorCount: typeof json.errorCount === 'number' ? json.errorCount : undefined,
+    userId: json.userId as string | undefined,
+    userName: json.userName as string | undefined,
+    userEmail: json.userEmail as string | undefined,
+  };
+}
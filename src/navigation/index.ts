@@ -1 +1,2 @@
 export { createScreenTracker } from './screen-tracker';
+export type { ScreenTrackerOptions, ActiveRoute } from './screen-tracker';
@@ -1,36 +1,121 @@
+import { InteractionManager } from 'react-native';
 import type { NavigationContainerRef, NavigationState } from '@react-navigation/native';
 import { TellingLogger } from '../telling';
+import { monotonicNow } from '../utils/clock';
 
-function getActiveRouteName(state: NavigationState | undefined): string | undefined {
+interface ActiveRoute {
+  name: string;
+  params?: Record<string, unknown>;
+}
+
+interface ScreenTrackerOptions {
+  /**
+   * Map a route to the reported screen name. Return null or undefined to ignore the route.
+   */
+  screenNameMapper?: (route: ActiveRoute) => string | null | undefined;
+  /** Route names that are never reported */
+  ignoreRoutes?: string[];
+  /** Route param keys to include in screen view metadata */
+  captureParams?: string[];
+  /** Report time from navigation start to first render and interactive. Defaults to true. */
+  trackScreenLoad?: boolean;
+  /** Client to report to. Defaults to `TellingLogger.instance`. */
+  client?: TellingLogger;
+}
+
+function getActiveRoute(state: NavigationState | undefined): ActiveRoute | undefined {
   if (!state) return undefined;
 
   const route = state.routes[state.index];
   if (route.state) {
-    return getActiveRouteName(route.state as NavigationState);
+    return getActiveRoute(route.state as NavigationState);
   }
-  return route.name;
+  return { name: route.name, params: route.params as Record<string, unknown> | undefined };
+}
+
+function pickParams(
+  params: Record<string, unknown> | undefined,
+  keys: string[] | undefined
+): Record<string, unknown> | undefined {
+  if (!params || !keys || keys.length === 0) return undefined;
+
+  const picked: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (key in params) picked[key] = params[key];
+  }
+  return Object.keys(picked).length > 0 ? picked : undefined;
 }
 
 /**
  * Creates a screen tracker for React Navigation
  */
 export function createScreenTracker(
-  navigationRef: React.RefObject<NavigationContainerRef<Record<string, unknown>>>
+  navigationRef: React.RefObject<NavigationContainerRef<Record<string, unknown>>>,
+  options: ScreenTrackerOptions = {}
 ) {
-  let previousRouteName: string | undefined;
+  const client = options.client ?? TellingLogger.instance;
+  const trackScreenLoad = options.trackScreenLoad ?? true;
+  let previousScreenName: string | undefined;
+  let navigationStartTime: number | undefined;
+  let unsubscribeAction: (() => void) | undefined;
+
+  const resolveScreenName = (route: ActiveRoute | undefined): string | undefined => {
+    if (!route || options.ignoreRoutes?.includes(route.name)) return undefined;
+    if (options.screenNameMapper) {
+      return options.screenNameMapper(route) ?? undefined;
+    }
+    return route.name;
+  };
+
+  const measureScreenLoad = (screenName: string, startTime: number) => {
+    const report = (renderTime: number, interactiveTime: number) => {
+      client.handleScreenLoad(screenName, {
+        renderMs: renderTime - startTime,
+        interactiveMs: interactiveTime - startTime,
+      });
+    };
+
+    requestAnimationFrame(() => {
+      const renderTime = monotonicNow();
+      InteractionManager.runAfterInteractions(() => report(renderTime, monotonicNow()));
+    });
+  };
 
   return {
     onReady: () => {
-      previousRouteName = getActiveRouteName(navigationRef.current?.getRootState());
+      previousScreenName = resolveScreenName(getActiveRoute(navigationRef.current?.getRootState()));
+
+      unsubscribeAction?.();
+      unsubscribeAction = navigationRef.current?.addListener('__unsafe_action__', () => {
+        navigationStartTime = monotonicNow();
+      });
     },
 
     onStateChange: () => {
-      const currentRouteName = getActiveRouteName(navigationRef.current?.getRootState());
+      const route = getActiveRoute(navigationRef.current?.getRootState());
+      const currentScreenName = resolveScreenName(route);
+      const startTime = navigationStartTime ?? monotonicNow();
+      navigationStartTime = undefined;
 
-      if (currentRouteName && previousRouteName !== currentRouteName) {
-        TellingLogger.instance.handleScreenView(currentRouteName, previousRouteName);
-        previousRouteName = currentRouteName;
+      if (currentScreenName && previousScreenName !== currentScreenName) {
+        client.handleScreenView(
+          currentScreenName,
+          previousScreenName,
+          pickParams(route?.params, options.captureParams)
+        );
+        if (trackScreenLoad) {
+          measureScreenLoad(currentScreenName, startTime);
+        }
+        previousScreenName = currentScreenName;
       }
     },
+
+    /** Stop listening for navigation actions */
+    dispose: () => {
+      unsubscribeAction?.();
+      unsubscribeAction = undefined;
+    },
   };
 }
+
+export type { ScreenTrackerOptions, ActiveRoute };
@@ -0,0 +1 @@
+export { Scope } from './scope';
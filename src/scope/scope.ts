@@ -0,0 +1,55 @@
+/**
+ * Tags and contexts applied to every event captured while the scope is active.
+ * Tags are short, searchable strings; contexts are structured data grouped by name.
+ */
+export class Scope {
+  private _tags: Record<string, string> = {};
+  private _contexts: Record<string, Record<string, unknown>> = {};
+
+  setTag(key: string, value: string): this {
+    this._tags[key] = value;
+    return this;
+  }
+
+  setTags(tags: Record<string, string>): this {
+    Object.assign(this._tags, tags);
+    return this;
+  }
+
+  removeTag(key: string): this {
+    delete this._tags[key];
+    return this;
+  }
+
+  /** Set a named context, or remove it by passing null */
+  setContext(name: string, context: Record<string, unknown> | null): this {
+    if (context === null) {
+      delete this._contexts[name];
+    } else {
+      this._contexts[name] = { ...context };
+    }
+    return this;
+  }
+
+  get tags(): Record<string, string> {
+    return { ...this._tags };
+  }
+
+  get contexts(): Record<string, Record<string, unknown>> {
+    return { ...this._contexts };
+  }
+
+  clear(): this {
+    this._tags = {};
+    this._contexts = {};
+    return this;
+  }
+
+  /** Copy this scope so changes to the copy don't leak back */
+  clone(): Scope {
+    const scope = new Scope();
+    scope._tags = { ...this._tags };
+    scope._contexts = { ...this._contexts };
+    return scope;
+  }
+}
@@ -0,0 +1,4 @@
+export { SourceMapConsumer } from './source-map';
+export type { RawSourceMap, OriginalPosition } from './source-map';
+export { symbolicateEvent, symbolicateStackTraceElements } from './symbolicate';
+export type { SymbolicateOptions } from './symbolicate';
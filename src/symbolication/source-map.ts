@@ -0,0 +1,186 @@
+/**
+ * Minimal source map (v3) consumer used for offline symbolication.
+ * Supports regular and indexed (sectioned) maps as produced by Metro and Hermes.
+ */
+
+export interface RawSourceMap {
+  version: number;
+  sources?: string[];
+  names?: string[];
+  mappings?: string;
+  sourceRoot?: string;
+  sections?: Array<{ offset: { line: number; column: number }; map: RawSourceMap }>;
+}
+
+export interface OriginalPosition {
+  source: string;
+  /** 1-based line */
+  line: number;
+  /** 0-based column */
+  column: number;
+  name?: string;
+}
+
+interface Segment {
+  generatedColumn: number;
+  sourceIndex: number;
+  originalLine: number;
+  originalColumn: number;
+  nameIndex?: number;
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map<string, number>(
+  Array.from(BASE64_CHARS).map((char, index) => [char, index])
+);
+
+/**
+ * Decode a Base64 VLQ segment into its numeric fields
+ */
+function decodeVlqSegment(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid base64 VLQ character: ${char}`);
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      const negative = value & 1;
+      value >>>= 1;
+      values.push(negative ? -value : value);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+function joinSourceRoot(sourceRoot: string | undefined, source: string): string {
+  if (!sourceRoot) return source;
+  return sourceRoot.endsWith('/') ? `${sourceRoot}${source}` : `${sourceRoot}/${source}`;
+}
+
+class BasicSourceMapConsumer {
+  private readonly _sources: string[];
+  private readonly _names: string[];
+  private readonly _lines: Segment[][] = [];
+
+  constructor(map: RawSourceMap) {
+    this._sources = (map.sources ?? []).map((source) => joinSourceRoot(map.sourceRoot, source));
+    this._names = map.names ?? [];
+
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let nameIndex = 0;
+
+    for (const line of (map.mappings ?? '').split(';')) {
+      const segments: Segment[] = [];
+      let generatedColumn = 0;
+
+      for (const rawSegment of line.split(',')) {
+        if (!rawSegment) continue;
+        const fields = decodeVlqSegment(rawSegment);
+        generatedColumn += fields[0];
+        if (fields.length < 4) continue;
+
+        sourceIndex += fields[1];
+        originalLine += fields[2];
+        originalColumn += fields[3];
+        const segment: Segment = { generatedColumn, sourceIndex, originalLine, originalColumn };
+        if (fields.length >= 5) {
+          nameIndex += fields[4];
+          segment.nameIndex = nameIndex;
+        }
+        segments.push(segment);
+      }
+
+      segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+      this._lines.push(segments);
+    }
+  }
+
+  originalPositionFor(line: number, column: number): OriginalPosition | undefined {
+    const segments = this._lines[line - 1];
+    if (!segments || segments.length === 0) return undefined;
+
+    // Binary search for the last segment starting at or before the column
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid].generatedColumn <= column) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (found < 0) return undefined;
+
+    const segment = segments[found];
+    const source = this._sources[segment.sourceIndex];
+    if (source === undefined) return undefined;
+
+    return {
+      source,
+      line: segment.originalLine + 1,
+      column: segment.originalColumn,
+      name: segment.nameIndex !== undefined ? this._names[segment.nameIndex] : undefined,
+    };
+  }
+}
+
+/**
+ * Looks up original positions for generated (bundle) positions
+ */
+export class SourceMapConsumer {
+  private readonly _sections: Array<{ line: number; column: number; consumer: SourceMapConsumer | BasicSourceMapConsumer }>;
+
+  constructor(map: RawSourceMap) {
+    if (map.sections) {
+      this._sections = map.sections
+        .map((section) => ({
+          line: section.offset.line,
+          column: section.offset.column,
+          consumer: new SourceMapConsumer(section.map),
+        }))
+        .sort((a, b) => a.line - b.line || a.column - b.column);
+    } else {
+      this._sections = [{ line: 0, column: 0, consumer: new BasicSourceMapConsumer(map) }];
+    }
+  }
+
+  /**
+   * @param line 1-based generated line
+   * @param column 0-based generated column
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | undefined {
+    const zeroBasedLine = line - 1;
+
+    let section: (typeof this._sections)[number] | undefined;
+    for (const candidate of this._sections) {
+      if (
+        candidate.line < zeroBasedLine ||
+        (candidate.line === zeroBasedLine && candidate.column <= column)
+      ) {
+        section = candidate;
+      } else {
+        break;
+      }
+    }
+    if (!section) return undefined;
+
+    const relativeLine = zeroBasedLine - section.line + 1;
+    const relativeColumn = zeroBasedLine === section.line ? column - section.column : column;
+    return section.consumer.originalPositionFor(relativeLine, relativeColumn);
+  }
+}
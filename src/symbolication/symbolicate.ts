@@ -0,0 +1,68 @@
+import { parseStackTrace, stackFramesToJson } from '../utils/stack-trace-parser';
+import { SourceMapConsumer } from './source-map';
+
+type StackTraceElement = { file: string; line: string; method: string; column?: string; class?: string };
+
+export interface SymbolicateOptions {
+  /** Whether columns in the crash report are 0- or 1-based. Defaults to 1 (JS engines). */
+  columnStart?: 0 | 1;
+  /** Only rewrite frames whose file ends with this name, e.g. `index.android.bundle` */
+  bundle?: string;
+}
+
+/**
+ * Rewrite minified stack trace elements to original file, line, column and function names.
+ * Frames that cannot be resolved are kept unchanged.
+ */
+export function symbolicateStackTraceElements(
+  elements: StackTraceElement[],
+  consumer: SourceMapConsumer,
+  options: SymbolicateOptions = {}
+): StackTraceElement[] {
+  const columnStart = options.columnStart ?? 1;
+
+  const positions = elements.map((element) => {
+    if (options.bundle && !element.file.endsWith(options.bundle)) return undefined;
+    const line = parseInt(element.line, 10);
+    const column = element.column !== undefined ? parseInt(element.column, 10) : columnStart;
+    if (!Number.isFinite(line) || line <= 0 || !Number.isFinite(column)) return undefined;
+    return consumer.originalPositionFor(line, Math.max(column - columnStart, 0));
+  });
+
+  return elements.map((element, index) => {
+    const position = positions[index];
+    if (!position) return element;
+
+    // The identifier at the caller's call site names the function this frame is in
+    const callerName = positions[index + 1]?.name;
+
+    const result: StackTraceElement = {
+      file: position.source,
+      line: String(position.line),
+      column: String(position.column + columnStart),
+      method: callerName ?? element.method,
+    };
+    if (!callerName && element.class) result.class = element.class;
+    return result;
+  });
+}
+
+/**
+ * Symbolicate an exported log event (as produced by `logEventToJson`)
+ */
+export function symbolicateEvent(
+  event: Record<string, unknown>,
+  consumer: SourceMapConsumer,
+  options: SymbolicateOptions = {}
+): Record<string, unknown> {
+  let elements = event.stackTraceElements as StackTraceElement[] | undefined;
+  if (!elements && typeof event.stackTrace === 'string') {
+    elements = stackFramesToJson(parseStackTrace(event.stackTrace));
+  }
+  if (!elements || elements.length === 0) return event;
+
+  return {
+    ...event,
+    stackTraceElements: symbolicateStackTraceElements(elements, consumer, options),
+  };
+}
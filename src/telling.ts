@@ -10,34 +10,147 @@ import {
   LogLevel,
   LogType,
   DeviceMetadata,
+  getLogLevelSeverity,
+  Breadcrumb,
+  BreadcrumbCategory,
+  createBreadcrumb,
+  breadcrumbToJson,
   Session,
+  SessionStatus,
+  sessionFromJson,
+  isErrorLevel,
   VersionCheckResult,
   noUpdateRequired,
   createLogEvent,
+  generateLogEventId,
   logEventToJson,
   logEventFromJson,
   sessionToJson,
   isSessionActive,
-  getSessionDuration,
+  ConsentStatus,
+  ConsentCategory,
+  ConsentState,
+  ConsentInput,
+  consentCategoryForType,
+  resolveConsent,
 } from './models';
 
 import {
   collectDeviceInfo,
   LogRateLimiter,
   STORAGE_KEYS,
+  STORAGE_KEY_PREFIX,
   getStorageItem,
   setStorageItem,
+  getStorageKeys,
   getStringList,
-  setStringList,
+  removeStorageItems,
+  PersistentQueue,
+  StorageAdapter,
+  asyncStorageAdapter,
+  createNamespacedStorage,
   parseStackTrace,
   stackFramesToJson,
+  runEventProcessors,
+  EventProcessor,
+  BeforeBreadcrumbCallback,
+  PiiScrubber,
+  ScrubOptions,
+  mapValueDeep,
+  EventSampler,
+  SamplingOptions,
+  mirrorEventToConsole,
+  computeFingerprint,
+  hashFingerprint,
+  monotonicNow,
+  generateUuid,
 } from './utils';
 
+import {
+  Transport,
+  TransportResponse,
+  FetchTransport,
+  DEFAULT_BASE_URL,
+  ConnectivityProvider,
+  classifyResponse,
+  ResponseClassification,
+} from './transport';
+import {
+  instrumentNetwork,
+  NetworkRequestInfo,
+  instrumentConsole,
+  ConsoleCall,
+  ConsoleLevel,
+} from './integrations';
+import {
+  Transaction,
+  SpanOptions,
+  SpanStatus,
+  spanToJson,
+  getBundleStartTime,
+  StartType,
+} from './tracing';
+import { Scope } from './scope';
+
 interface InitOptions {
   userId?: string;
   userName?: string;
   userEmail?: string;
   enableDebugLogs?: boolean;
+  /** Base URL of the Telling API, e.g. a staging proxy. Ignored when `transport` is set. */
+  baseUrl?: string;
+  /** Custom delivery mechanism. Defaults to a fetch-based transport against `baseUrl`. */
+  transport?: Transport;
+  /** Where the SDK persists its state. Defaults to AsyncStorage. */
+  storage?: StorageAdapter;
+  /** Prefix for this client's storage keys. `createClient` derives one from the API key by default. */
+  namespace?: string;
+  /** Pauses flushing while offline and drains the queue when the network returns */
+  connectivity?: ConnectivityProvider;
+  /** Called with the outcome of every batch delivery attempt */
+  onDelivery?: (report: DeliveryReport) => void;
+  /**
+   * Consent used until the user makes a choice. Defaults to granted for every category;
+   * pass `ConsentStatus.Pending` to hold events locally until `setConsent()` is called.
+   */
+  defaultConsent?: ConsentInput;
+  /** Called when the API key is rejected by the server */
+  onAuthError?: (error: AuthError) => void;
+  /** How long to wait before probing again with a rejected API key, in ms. Defaults to 30 minutes. */
+  authRetryCooldown?: number;
+  /** Processors run on every event before it is buffered; return null to drop */
+  eventProcessors?: EventProcessor[];
+  /** Called before each breadcrumb is recorded; return null to drop */
+  beforeBreadcrumb?: BeforeBreadcrumbCallback;
+  /** Maximum number of breadcrumbs kept. Defaults to 20. */
+  maxBreadcrumbs?: number;
+  /** Keep breadcrumbs when a new session starts. Defaults to false. */
+  keepBreadcrumbsAcrossSessions?: boolean;
+  /** PII scrubbing rules applied before events are stored or sent. Pass false to disable. */
+  scrubbing?: ScrubOptions | false;
+  /** Per-type and per-level sample rates */
+  sampling?: SamplingOptions;
+  /**
+   * Minimum level ingested and sent to the server. Pass a single level, or separate
+   * levels for development (`__DEV__`) and release builds. Defaults to Trace.
+   */
+  minLevel?: LogLevel | { development?: LogLevel; release?: LogLevel };
+  /** Mirror every event to the Metro console. Defaults to `enableDebugLogs`. */
+  mirrorToConsole?: boolean;
+}
+
+interface DeliveryReport extends ResponseClassification {
+  /** Number of events in the batch */
+  eventCount: number;
+  /** Transport error, for network failures */
+  error?: unknown;
+}
+
+interface AuthError {
+  /** HTTP status returned by the server */
+  status?: number;
+  /** When delivery will next be attempted with the current key */
+  nextProbeAt: Date;
 }
 
 interface LogOptions {
@@ -46,6 +159,35 @@ interface LogOptions {
   metadata?: Record<string, unknown>;
   stackTrace?: string;
   error?: Error;
+  /** Override the computed grouping fingerprint of a crash event */
+  fingerprint?: string;
+  /** Tags for this event, overriding scope tags with the same key */
+  tags?: Record<string, string>;
+}
+
+interface BreadcrumbOptions {
+  category: BreadcrumbCategory | string;
+  message: string;
+  level?: LogLevel;
+  data?: Record<string, unknown>;
+}
+
+interface NetworkTrackingOptions {
+  /** Requests slower than this many milliseconds are reported as Performance events. Defaults to 3000. */
+  slowRequestThreshold?: number;
+  /** Responses with at least this status are reported as errors. Defaults to 500. */
+  errorStatusThreshold?: number;
+  /** Report failed requests as Error logs. Defaults to true. */
+  captureFailedRequests?: boolean;
+  /** URL prefixes or patterns that should not be recorded */
+  ignoreUrls?: Array<string | RegExp>;
+}
+
+interface ConsoleCaptureOptions {
+  /** Console methods recorded as breadcrumbs. Defaults to log, info, warn and error. */
+  breadcrumbLevels?: ConsoleLevel[];
+  /** Console methods also reported as Warning/Error events. Defaults to none. */
+  eventLevels?: Array<'warn' | 'error'>;
 }
 
 interface FunnelOptions {
@@ -60,6 +202,9 @@ interface ExceptionOptions {
   stackTrace?: string;
   context?: string;
   metadata?: Record<string, unknown>;
+  /** Override the computed grouping fingerprint */
+  fingerprint?: string;
+  tags?: Record<string, string>;
 }
 
 interface UserOptions {
@@ -68,6 +213,17 @@ interface UserOptions {
   userEmail?: string;
 }
 
+interface ForgetUserOptions {
+  /**
+   * `purge` (default) deletes the user's queued events; `anonymize` keeps them
+   * with the user's identifiers removed
+   */
+  mode?: 'purge' | 'anonymize';
+}
+
+/** Log event JSON as stored in the persistent queue */
+type QueuedLogEvent = Record<string, unknown> & { id: string };
+
 declare const __DEV__: boolean;
 
 /**
@@ -85,69 +241,199 @@ class TellingLogger {
   }
 
   private _apiKey?: string;
-  private readonly _baseUrl = 'https://tellingserver.globeapp.dev/api/v1/logs';
-  private readonly _versionCheckUrl = 'https://tellingserver.globeapp.dev/api/v1/project/version-check';
+  private _transport: Transport = new FetchTransport();
+  private _onDelivery?: (report: DeliveryReport) => void;
   private _initialized = false;
   private _deviceMetadata?: DeviceMetadata;
   private _enableDebugLogs = false;
+  private _mirrorToConsole = false;
+  private _minLevel = LogLevel.Trace;
 
   private _userId?: string;
   private _userName?: string;
   private _userEmail?: string;
   private _userProperties: Record<string, unknown> = {};
+  private _superProperties: Record<string, unknown> = {};
+  private _propertiesLoaded = false;
+  private _anonymousId?: string;
+  private _aliasedUser?: string;
 
+  private _storage: StorageAdapter = asyncStorageAdapter;
   private _buffer: LogEvent[] = [];
+  private _inFlight = new Map<string, LogEvent>();
+  private _forgottenInFlight = new Set<string>();
+  private _queue = this._createQueue();
   private _flushTimer?: ReturnType<typeof setInterval>;
   private _cleanupTimer?: ReturnType<typeof setInterval>;
 
   private _rateLimiter = new LogRateLimiter();
   private _currentSession?: Session;
+  private _inForeground = true;
+  private _lastSessionPersist = 0;
+  private static readonly _sessionPersistInterval = 10 * 1000;
 
   private _screenStartTime?: Date;
   private _currentScreen?: string;
 
-  private _breadcrumbs: Array<Record<string, unknown>> = [];
-  private static readonly _maxBreadcrumbs = 20;
+  private _eventProcessors: EventProcessor[] = [];
+  private _beforeBreadcrumb?: BeforeBreadcrumbCallback;
+  private _scrubber?: PiiScrubber = new PiiScrubber();
+  private _sampler?: EventSampler;
+
+  private _globalScope = new Scope();
+  private _scopeStack: Scope[] = [];
+
+  private _breadcrumbs: Breadcrumb[] = [];
+  private _maxBreadcrumbs = TellingLogger._defaultMaxBreadcrumbs;
+  private _keepBreadcrumbsAcrossSessions = false;
+  private static readonly _defaultMaxBreadcrumbs = 20;
+
+  private static readonly _deleteUserDataAction = 'delete_user_data';
+  private static readonly _userIdentityKeys = ['userId', 'userName', 'userEmail', 'anonymousId'];
+
+  private _consent: ConsentState = resolveConsent({} as ConsentState, ConsentStatus.Granted);
+  private _consentLoaded = false;
 
   private _consecutiveFailures = 0;
   private static readonly _maxConsecutiveFailures = 5;
-  private _permanentFailure = false;
+  private _keyRejected = false;
+  private _nextAuthProbeTime?: Date;
+  private _authRetryCooldown = TellingLogger._defaultAuthRetryCooldown;
+  private _onAuthError?: (error: AuthError) => void;
+  private static readonly _defaultAuthRetryCooldown = 30 * 60 * 1000;
   private _nextRetryTime?: Date;
 
+  private _connectivity?: ConnectivityProvider;
+  private _isOnline = true;
+  private _connectivitySubscription?: () => void;
+
   private static readonly _maxBufferSize = 500;
   private static readonly _bufferTrimSize = 400;
   private static readonly _batchFlushSize = 20;
 
   private _lastBackgroundTime?: Date;
+  private _wentToBackground = false;
+  private _startType: StartType = 'cold';
+  private _startMarkTime = getBundleStartTime();
+  private _appReadyReported = false;
+  private static _startupReporter?: TellingLogger;
   private static readonly _sessionTimeout = 5 * 60 * 1000;
 
   private _appStateSubscription?: { remove: () => void };
+  private _restoreNetwork?: () => void;
+  private _restoreConsole?: () => void;
+
+  private static readonly _consoleLevels: Record<ConsoleLevel, LogLevel> = {
+    debug: LogLevel.Debug,
+    log: LogLevel.Info,
+    info: LogLevel.Info,
+    warn: LogLevel.Warning,
+    error: LogLevel.Error,
+  };
 
   private constructor() {}
 
+  /**
+   * Create and initialize an independent client with its own buffer, session,
+   * rate limiter and storage namespace. `TellingLogger.instance` is unaffected.
+   * App start timings are reported once per process, by the first client to initialize.
+   */
+  static async createClient(apiKey: string, options?: InitOptions): Promise<TellingLogger> {
+    const client = new TellingLogger();
+    await client.init(apiKey, {
+      ...options,
+      namespace: options?.namespace ?? `client_${hashFingerprint(apiKey)}`,
+    });
+    return client;
+  }
+
   async init(apiKey: string, options?: InitOptions): Promise<void> {
+    const initStartTime = monotonicNow();
     this._apiKey = apiKey;
     this._userId = options?.userId;
     this._userName = options?.userName;
     this._userEmail = options?.userEmail;
     this._enableDebugLogs = options?.enableDebugLogs ?? __DEV__;
+    this._mirrorToConsole = options?.mirrorToConsole ?? this._enableDebugLogs;
+    this._minLevel = this._resolveMinLevel(options?.minLevel);
+    this._transport = options?.transport ?? new FetchTransport(options?.baseUrl ?? DEFAULT_BASE_URL);
+    const storage = options?.storage ?? asyncStorageAdapter;
+    this._storage = options?.namespace ? createNamespacedStorage(storage, options.namespace) : storage;
+    this._onDelivery = options?.onDelivery;
+    this._onAuthError = options?.onAuthError;
+    this._authRetryCooldown = options?.authRetryCooldown ?? TellingLogger._defaultAuthRetryCooldown;
+    this._queue = this._createQueue();
+    this._eventProcessors = [...(options?.eventProcessors ?? [])];
+    this._beforeBreadcrumb = options?.beforeBreadcrumb;
+    this._maxBreadcrumbs = Math.max(0, options?.maxBreadcrumbs ?? TellingLogger._defaultMaxBreadcrumbs);
+    this._keepBreadcrumbsAcrossSessions = options?.keepBreadcrumbsAcrossSessions ?? false;
+    this._scrubber = options?.scrubbing === false ? undefined : new PiiScrubber(options?.scrubbing);
+    this._sampler = options?.sampling ? new EventSampler(options.sampling) : undefined;
     this._initialized = true;
+    this._propertiesLoaded = false;
+    this._consentLoaded = false;
+    if (!TellingLogger._startupReporter) TellingLogger._startupReporter = this;
 
     this._deviceMetadata = await collectDeviceInfo();
-    await this._trackLifecycleEvents();
-    this._startNewSession();
+    await this._setupConnectivity(options?.connectivity);
+    await this._loadKeyRejection();
+    await this._loadConsent(options?.defaultConsent);
+    await this._loadAnonymousId();
+    await this._loadProperties();
     await this._loadPersistedLogs();
+    await this._trackLifecycleEvents();
+    await this._restoreSession();
+    this._flush();
     this._startFlushTimer();
     this._setupAppLifecycleListeners();
 
+    const initEndTime = monotonicNow();
+    this._logAppStart('init', initEndTime - this._startMarkTime, {
+      init_duration_ms: Math.round(initEndTime - initStartTime),
+    });
+
     if (this._enableDebugLogs) {
       console.log('Telling SDK Initialized');
     }
   }
 
+  /**
+   * Mark the app as ready for use, e.g. once the first meaningful screen has rendered.
+   * Reports the time since JS bundle start (cold start) or since resume (warm start).
+   */
+  markAppReady(): void {
+    if (!this._initialized || this._appReadyReported) return;
+    this._appReadyReported = true;
+    this._logAppStart('ready', monotonicNow() - this._startMarkTime);
+  }
+
+  private _logAppStart(
+    phase: 'init' | 'ready' | 'first_frame',
+    durationMs: number,
+    metadata?: Record<string, unknown>
+  ): void {
+    if (TellingLogger._startupReporter !== this) return;
+    this.log('app_start', {
+      level: LogLevel.Info,
+      type: LogType.Performance,
+      metadata: {
+        start_type: this._startType,
+        phase,
+        duration_ms: Math.round(durationMs),
+        ...metadata,
+      },
+    });
+  }
+
+  private _resolveMinLevel(minLevel: InitOptions['minLevel']): LogLevel {
+    if (minLevel === undefined) return LogLevel.Trace;
+    if (typeof minLevel === 'string') return minLevel;
+    return (__DEV__ ? minLevel.development : minLevel.release) ?? LogLevel.Trace;
+  }
+
   private async _trackLifecycleEvents(): Promise<void> {
-    const hasOpenedBefore = await getStorageItem(STORAGE_KEYS.FIRST_OPEN);
-    if (!hasOpenedBefore) {
+    const hasOpenedBefore = await getStorageItem(this._storage, STORAGE_KEYS.FIRST_OPEN);
+    if (!hasOpenedBefore && !this._isOptedOut()) {
       this.log('first_open', {
         level: LogLevel.Info,
         type: LogType.Analytics,
@@ -156,10 +442,10 @@ class TellingLogger {
           install_time: new Date().toISOString(),
         },
       });
-      await setStorageItem(STORAGE_KEYS.FIRST_OPEN, 'true');
+      await setStorageItem(this._storage, STORAGE_KEYS.FIRST_OPEN, 'true');
     }
 
-    const lastVersion = await getStorageItem(STORAGE_KEYS.LAST_APP_VERSION);
+    const lastVersion = await getStorageItem(this._storage, STORAGE_KEYS.LAST_APP_VERSION);
     const currentVersion = this._deviceMetadata?.appVersion;
     if (lastVersion && currentVersion && lastVersion !== currentVersion) {
       this.log('app_update', {
@@ -171,8 +457,8 @@ class TellingLogger {
         },
       });
     }
-    if (currentVersion) {
-      await setStorageItem(STORAGE_KEYS.LAST_APP_VERSION, currentVersion);
+    if (currentVersion && !this._isOptedOut()) {
+      await setStorageItem(this._storage, STORAGE_KEYS.LAST_APP_VERSION, currentVersion);
     }
 
     this.log('app_open', {
@@ -203,13 +489,10 @@ class TellingLogger {
         return noUpdateRequired;
       }
 
-      const url = `${this._versionCheckUrl}?platform=${platform}&version=${currentVersion}`;
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'x-api-key': this._apiKey,
-          'Content-Type': 'application/json',
-        },
+      const response = await this._transport.fetchVersionCheck({
+        apiKey: this._apiKey,
+        platform,
+        version: currentVersion,
       });
 
       if (response.status !== 200) {
@@ -219,7 +502,7 @@ class TellingLogger {
         return noUpdateRequired;
       }
 
-      const data = (await response.json()) as {
+      const data = (response.body ?? {}) as {
         requiresUpdate?: boolean;
         isRequired?: boolean;
         minVersion?: string;
@@ -234,9 +517,6 @@ class TellingLogger {
       if (requiresUpdate && !isRequired && minVersion) {
         const isSnoozed = await this._isUpdateSnoozed(minVersion);
         if (isSnoozed) {
-          if (this._enableDebugLogs) {
-            console.log(`Telling: Update snoozed for min version ${minVersion}`);
-          }
           this.log('update_check_completed', {
             level: LogLevel.Info,
             type: LogType.Analytics,
@@ -300,8 +580,8 @@ class TellingLogger {
    */
   private async _isUpdateSnoozed(minVersion: string): Promise<boolean> {
     try {
-      const snoozedUntilStr = await getStorageItem(STORAGE_KEYS.UPDATE_SNOOZED_UNTIL);
-      const snoozedMinVersion = await getStorageItem(STORAGE_KEYS.SNOOZED_MIN_VERSION);
+      const snoozedUntilStr = await getStorageItem(this._storage, STORAGE_KEYS.UPDATE_SNOOZED_UNTIL);
+      const snoozedMinVersion = await getStorageItem(this._storage, STORAGE_KEYS.SNOOZED_MIN_VERSION);
 
       if (!snoozedUntilStr || !snoozedMinVersion) {
         return false;
@@ -342,8 +622,8 @@ class TellingLogger {
     const snoozedUntil = new Date();
     snoozedUntil.setDate(snoozedUntil.getDate() + clampedDays);
 
-    await setStorageItem(STORAGE_KEYS.UPDATE_SNOOZED_UNTIL, snoozedUntil.toISOString());
-    await setStorageItem(STORAGE_KEYS.SNOOZED_MIN_VERSION, minVersion);
+    await setStorageItem(this._storage, STORAGE_KEYS.UPDATE_SNOOZED_UNTIL, snoozedUntil.toISOString());
+    await setStorageItem(this._storage, STORAGE_KEYS.SNOOZED_MIN_VERSION, minVersion);
 
     this.log('update_snoozed', {
       level: LogLevel.Info,
@@ -354,10 +634,6 @@ class TellingLogger {
         current_version: this._deviceMetadata?.appVersion,
       },
     });
-
-    if (this._enableDebugLogs) {
-      console.log(`Telling: Update snoozed until ${snoozedUntil.toISOString()} for min version ${minVersion}`);
-    }
   }
 
   /**
@@ -387,9 +663,6 @@ class TellingLogger {
     }
 
     setJSExceptionHandler((error, isFatal) => {
-      if (this._enableDebugLogs) {
-        console.log('Telling: Caught JS error:', error);
-      }
       this.log(`JS Error: ${error.message}`, {
         level: isFatal ? LogLevel.Fatal : LogLevel.Error,
         type: LogType.Crash,
@@ -399,9 +672,6 @@ class TellingLogger {
     }, true);
 
     setNativeExceptionHandler((exceptionString) => {
-      if (this._enableDebugLogs) {
-        console.log('Telling: Caught native error:', exceptionString);
-      }
       this.log(`Native Error: ${exceptionString}`, {
         level: LogLevel.Fatal,
         type: LogType.Crash,
@@ -413,6 +683,142 @@ class TellingLogger {
     }
   }
 
+  /**
+   * Record fetch and XMLHttpRequest calls as http breadcrumbs, and report
+   * slow and failed requests. Calls to the Telling API are never recorded.
+   */
+  enableNetworkTracking(options: NetworkTrackingOptions = {}): void {
+    if (!this._initialized) {
+      if (this._enableDebugLogs) {
+        console.warn('Telling SDK not initialized');
+      }
+      return;
+    }
+
+    this.disableNetworkTracking();
+
+    const slowRequestThreshold = options.slowRequestThreshold ?? 3000;
+    const errorStatusThreshold = options.errorStatusThreshold ?? 500;
+    const captureFailedRequests = options.captureFailedRequests ?? true;
+    const ignoreUrls = [...(options.ignoreUrls ?? [])];
+    if (this._transport.baseUrl) {
+      ignoreUrls.push(this._transport.baseUrl);
+    }
+
+    this._restoreNetwork = instrumentNetwork(
+      (info) => this._onNetworkRequest(info, slowRequestThreshold, errorStatusThreshold, captureFailedRequests),
+      { ignoreUrls }
+    );
+
+    if (this._enableDebugLogs) {
+      console.log('Telling: Network tracking enabled');
+    }
+  }
+
+  disableNetworkTracking(): void {
+    this._restoreNetwork?.();
+    this._restoreNetwork = undefined;
+  }
+
+  private _onNetworkRequest(
+    info: NetworkRequestInfo,
+    slowRequestThreshold: number,
+    errorStatusThreshold: number,
+    captureFailedRequests: boolean
+  ): void {
+    const failed = info.status === undefined || info.status >= errorStatusThreshold;
+    const data: Record<string, unknown> = {
+      method: info.method,
+      url: info.url,
+      duration_ms: info.durationMs,
+      ...(info.status !== undefined && { status_code: info.status }),
+      ...(info.error && { error: info.error }),
+    };
+
+    this._recordBreadcrumb(
+      createBreadcrumb({
+        category: BreadcrumbCategory.Http,
+        message: `${info.method} ${info.url}${info.status !== undefined ? ` [${info.status}]` : ''}`,
+        level: failed ? LogLevel.Error : LogLevel.Info,
+        data,
+      })
+    );
+
+    if (info.durationMs >= slowRequestThreshold) {
+      this.log(`Slow request: ${info.method} ${info.url}`, {
+        level: LogLevel.Warning,
+        type: LogType.Performance,
+        metadata: data,
+      });
+    }
+
+    if (failed && captureFailedRequests) {
+      this.log(`Request failed: ${info.method} ${info.url}${info.status !== undefined ? ` (${info.status})` : ''}`, {
+        level: LogLevel.Error,
+        type: LogType.General,
+        metadata: data,
+      });
+    }
+  }
+
+  /**
+   * Record console calls as breadcrumbs, and optionally report warnings and
+   * errors as events. The SDK's own debug output is never captured.
+   */
+  enableConsoleCapture(options: ConsoleCaptureOptions = {}): void {
+    if (!this._initialized) {
+      if (this._enableDebugLogs) {
+        console.warn('Telling SDK not initialized');
+      }
+      return;
+    }
+
+    this.disableConsoleCapture();
+
+    const breadcrumbLevels = options.breadcrumbLevels ?? ['log', 'info', 'warn', 'error'];
+    const eventLevels = options.eventLevels ?? [];
+    const levels = Array.from(new Set<ConsoleLevel>([...breadcrumbLevels, ...eventLevels]));
+
+    this._restoreConsole = instrumentConsole((call) => {
+      const recordBreadcrumb = breadcrumbLevels.includes(call.level);
+      const reportEvent = (eventLevels as ConsoleLevel[]).includes(call.level);
+      this._onConsoleCall(call, recordBreadcrumb, reportEvent);
+    }, levels);
+
+    if (this._enableDebugLogs) {
+      console.log('Telling: Console capture enabled');
+    }
+  }
+
+  disableConsoleCapture(): void {
+    this._restoreConsole?.();
+    this._restoreConsole = undefined;
+  }
+
+  private _onConsoleCall(call: ConsoleCall, recordBreadcrumb: boolean, reportEvent: boolean): void {
+    const level = TellingLogger._consoleLevels[call.level];
+
+    if (recordBreadcrumb) {
+      this._recordBreadcrumb(
+        createBreadcrumb({
+          category: BreadcrumbCategory.Console,
+          message: call.message,
+          level,
+          data: { logger: 'console', method: call.level },
+        })
+      );
+    }
+
+    if (reportEvent) {
+      this.log(call.message, {
+        level,
+        type: LogType.General,
+        stackTrace: call.stackTrace,
+        metadata: { source: 'console', method: call.level },
+      });
+    }
+  }
+
   log(message: string, options?: LogOptions): void {
     if (!this._initialized) {
       if (this._enableDebugLogs) {
@@ -424,11 +830,24 @@ class TellingLogger {
     const level = options?.level ?? LogLevel.Info;
     const type = options?.type ?? LogType.General;
 
+    this._trackSessionActivity(level, type);
+
+    if (this._consent[consentCategoryForType(type)] === ConsentStatus.Denied) {
+      return;
+    }
+
+    const scope = this._currentScope();
+    const contexts = scope.contexts;
+    const tags = { ...scope.tags, ...options?.tags };
+
     const enrichedMetadata: Record<string, unknown> = {
+      ...this._superProperties,
+      ...this._userProperties,
+      ...(Object.keys(contexts).length > 0 && { contexts }),
       ...options?.metadata,
     };
     if (type === LogType.Crash && this._breadcrumbs.length > 0) {
-      enrichedMetadata.breadcrumbs = [...this._breadcrumbs];
+      enrichedMetadata.breadcrumbs = this._breadcrumbs.map(breadcrumbToJson);
     }
 
     // Parse stack trace into structured elements for crash logs
@@ -441,6 +860,16 @@ class TellingLogger {
       }
     }
 
+    let fingerprint = options?.fingerprint;
+    if (!fingerprint && type === LogType.Crash) {
+      const exceptionType = options?.metadata?.exception_type ?? options?.metadata?.name ?? options?.error?.name;
+      fingerprint = computeFingerprint({
+        message,
+        exceptionType: typeof exceptionType === 'string' ? exceptionType : undefined,
+        stackTraceElements,
+      });
+    }
+
     const event = createLogEvent({
       type,
       level,
@@ -449,12 +878,74 @@ class TellingLogger {
       stackTrace: rawStackTrace,
       stackTraceElements,
       metadata: Object.keys(enrichedMetadata).length > 0 ? enrichedMetadata : undefined,
+      tags: Object.keys(tags).length > 0 ? tags : undefined,
       device: this._deviceMetadata,
       userId: this._userId,
       userName: this._userName,
       userEmail: this._userEmail,
       sessionId: this._currentSession?.sessionId,
+      anonymousId: this._anonymousId,
+      fingerprint,
+    });
+
+    if (this._mirrorToConsole) {
+      mirrorEventToConsole(event);
+    }
+
+    if (getLogLevelSeverity(level) < getLogLevelSeverity(this._minLevel)) {
+      return;
+    }
+
+    if (this._sampler) {
+      const decision = this._sampler.sample(event);
+      if (!decision.sampled) {
+        if (this._enableDebugLogs) {
+          console.log(`Telling: Sampled out (${event.level}/${event.type} @ ${decision.rate})`);
+        }
+        return;
+      }
+      event.sampleRate = decision.rate;
+    }
+
+    if (this._eventProcessors.length === 0) {
+      this._enqueueEvent(event, options?.metadata);
+      return;
+    }
+
+    const processed = runEventProcessors(event, this._eventProcessors, (error) => {
+      if (this._enableDebugLogs) {
+        console.log('Telling: Event processor failed:', error);
+      }
     });
+    if (processed instanceof Promise) {
+      processed
+        .then((result) => this._handleProcessedEvent(result, options?.metadata))
+        .catch((error) => {
+          if (this._enableDebugLogs) {
+            console.log('Telling: Event dropped after processor failure:', error);
+          }
+        });
+    } else {
+      this._handleProcessedEvent(processed, options?.metadata);
+    }
+  }
+
+  private _handleProcessedEvent(event: LogEvent | null, breadcrumbData?: Record<string, unknown>): void {
+    if (!event) {
+      if (this._enableDebugLogs) {
+        console.log('Telling: Event dropped by event processor');
+      }
+      return;
+    }
+    this._enqueueEvent(event, breadcrumbData);
+  }
+
+  /**
+   * Buffer and persist an event. Analytics events are also recorded as breadcrumbs
+   * carrying `breadcrumbData`, the caller's metadata without super properties or contexts.
+   */
+  private _enqueueEvent(rawEvent: LogEvent, breadcrumbData?: Record<string, unknown>): void {
+    const event = this._scrubber ? this._scrubber.scrubEvent(rawEvent) : rawEvent;
 
     if (!this._rateLimiter.shouldSendLog(event)) {
       if (this._enableDebugLogs) {
@@ -465,7 +956,11 @@ class TellingLogger {
 
     if (this._buffer.length >= TellingLogger._maxBufferSize) {
       const dropCount = this._buffer.length - TellingLogger._bufferTrimSize;
-      this._buffer.splice(0, dropCount);
+      // Deletion requests are never trimmed
+      const dropped = this._buffer.filter((e) => !this._isDeletionRequest(e)).slice(0, dropCount);
+      const droppedIds = new Set(dropped.map((e) => e.id));
+      this._buffer = this._buffer.filter((e) => !droppedIds.has(e.id));
+      this._queue.ack(Array.from(droppedIds));
       if (this._enableDebugLogs) {
         console.log(`Telling: Buffer full, dropped ${dropCount} oldest logs`);
       }
@@ -473,17 +968,66 @@ class TellingLogger {
 
     this._buffer.push(event);
     this._rateLimiter.markLogSent(event);
-    this._persistLogs();
+    // Until the stored consent is known, events are held in memory only
+    if (this._consentLoaded) {
+      this._queue.append(logEventToJson(event) as QueuedLogEvent);
+    }
+    if (event.type === LogType.Crash || event.level === LogLevel.Fatal) {
+      // The process is likely about to die, so write immediately
+      this._queue.flushWrites();
+    }
 
-    if (type === LogType.Analytics) {
-      this._addBreadcrumb(message, options?.metadata);
+    if (event.type === LogType.Analytics) {
+      this._recordBreadcrumb(
+        createBreadcrumb({
+          category: BreadcrumbCategory.Analytics,
+          message: event.message,
+          level: event.level,
+          data: breadcrumbData,
+        })
+      );
     }
 
-    if (level === LogLevel.Error || this._buffer.length >= TellingLogger._batchFlushSize) {
+    if (event.level === LogLevel.Error || this._buffer.length >= TellingLogger._batchFlushSize) {
       this._flush();
     }
   }
 
+  /**
+   * Register a processor that can enrich, rewrite or drop events before they are buffered.
+   * Processors run in registration order, after any passed to `init()`.
+   */
+  addEventProcessor(processor: EventProcessor): void {
+    this._eventProcessors.push(processor);
+  }
+
+  removeEventProcessor(processor: EventProcessor): void {
+    this._eventProcessors = this._eventProcessors.filter((p) => p !== processor);
+  }
+
+  /**
+   * Start a performance transaction. Call `finish()` on it to report the
+   * completed span tree as a single Performance event.
+   */
+  startTransaction(name: string, options?: SpanOptions & { op?: string }): Transaction {
+    return new Transaction(name, (transaction) => this._reportTransaction(transaction), options);
+  }
+
+  private _reportTransaction(transaction: Transaction): void {
+    const failed = transaction.status !== undefined && transaction.status !== SpanStatus.Ok;
+    this.log(`Transaction: ${transaction.name}`, {
+      level: failed ? LogLevel.Warning : LogLevel.Info,
+      type: LogType.Performance,
+      metadata: {
+        transaction: transaction.name,
+        op: transaction.op,
+        duration_ms: transaction.durationMs !== undefined ? Math.round(transaction.durationMs) : undefined,
+        status: transaction.status,
+        span_tree: spanToJson(transaction),
+      },
+    });
+  }
+
   event(name: string, properties?: Record<string, unknown>): void {
     this.log(name, {
       level: LogLevel.Info,
@@ -510,6 +1054,8 @@ class TellingLogger {
       level: LogLevel.Error,
       type: LogType.Crash,
       stackTrace: options.stackTrace ?? options.error.stack,
+      fingerprint: options.fingerprint,
+      tags: options.tags,
       metadata: {
         exception_type: options.error.name,
         ...(options.context && { context: options.context }),
@@ -528,10 +1074,6 @@ class TellingLogger {
     this._endSession();
     this._startNewSession();
 
-    if (this._enableDebugLogs) {
-      console.log(`Telling: User context updated - ${options.userId}`);
-    }
-
     this.log('User identified', {
       level: LogLevel.Info,
       type: LogType.Analytics,
@@ -541,100 +1083,385 @@ class TellingLogger {
         ...(options.userEmail && { userEmail: options.userEmail }),
       },
     });
+
+    this.alias(options.userId);
+  }
+
+  /**
+   * Link the anonymous install ID to `userId`, so activity before login is attributed
+   * to the user. Called by `setUser()`; reported once per anonymous ID and user.
+   */
+  alias(userId: string): void {
+    if (!this._initialized || !this._anonymousId) return;
+
+    const link = `${this._anonymousId}:${userId}`;
+    if (this._aliasedUser === link) return;
+    this._aliasedUser = link;
+    if (!this._isOptedOut()) {
+      setStorageItem(this._storage, STORAGE_KEYS.ALIASED_USER, link).catch(() => undefined);
+    }
+
+    this.log('User aliased', {
+      level: LogLevel.Info,
+      type: LogType.Analytics,
+      metadata: { anonymousId: this._anonymousId, userId },
+    });
+  }
+
+  getAnonymousId(): string | undefined {
+    return this._anonymousId;
   }
 
   clearUser(): void {
     if (!this._initialized) return;
 
-    if (this._enableDebugLogs) {
-      console.log('Telling: User context cleared');
-    }
-
     this.log('User logged out', { level: LogLevel.Info, type: LogType.Analytics });
 
     this._userId = undefined;
     this._userName = undefined;
     this._userEmail = undefined;
+    this._userProperties = {};
+    this._persistUserProperties();
+    this._rotateAnonymousId();
 
     this._endSession();
     this._startNewSession();
   }
 
-  setUserProperty(key: string, value: unknown): void {
-    this._userProperties[key] = value;
-    this.log('User property set', {
-      type: LogType.Analytics,
-      metadata: { property_key: key, property_value: value },
-    });
-  }
-
-  setUserProperties(properties: Record<string, unknown>): void {
-    Object.assign(this._userProperties, properties);
-    this.log('User properties set', {
-      type: LogType.Analytics,
-      metadata: { properties },
-    });
-  }
-
-  getUserProperty(key: string): unknown {
-    return this._userProperties[key];
-  }
+  /**
+   * Erase the current user from the device and ask the backend to delete their data.
+   * Their queued events are purged (or anonymized), and user properties, breadcrumbs
+   * and the session are reset, including events a flush is sending right now. The
+   * deletion request is queued and kept through any failures or rejections until it
+   * is delivered, e.g. once the device is back online.
+   */
+  async forgetUser(options: ForgetUserOptions = {}): Promise<void> {
+    if (!this._initialized) return;
 
-  clearUserProperty(key: string): void {
-    delete this._userProperties[key];
-  }
+    const userId = this._userId;
+    const userName = this._userName;
+    const userEmail = this._userEmail;
+    const anonymousId = this._anonymousId;
+    const belongsToUser = (event: LogEvent) =>
+      (!!userId && event.userId === userId) ||
+      (!!userEmail && event.userEmail === userEmail) ||
+      (!!anonymousId && event.anonymousId === anonymousId);
+
+    const isAffected = (e: LogEvent) => belongsToUser(e) && !this._isDeletionRequest(e);
+    // Events taken out of the buffer by an in-flight flush must not be requeued if it fails
+    const inFlight = Array.from(this._inFlight.values()).filter(isAffected);
+    inFlight.forEach((e) => this._forgottenInFlight.add(e.id));
+    const affected = [...this._buffer.filter(isAffected), ...inFlight];
+    const affectedIds = new Set(affected.map((e) => e.id));
+    this._queue.ack(Array.from(affectedIds));
+
+    if (options.mode === 'anonymize') {
+      const identifiers = [userId, userName, userEmail, anonymousId].filter((v): v is string => !!v);
+      // A fresh ID keeps acks of the in-flight original from removing the copy
+      const anonymize = (e: LogEvent) => {
+        const anonymized = { ...this._anonymizeEvent(e, identifiers), id: generateLogEventId() };
+        this._queue.append(logEventToJson(anonymized) as QueuedLogEvent);
+        return anonymized;
+      };
+      this._buffer = [
+        ...inFlight.map(anonymize),
+        ...this._buffer.map((e) => (affectedIds.has(e.id) ? anonymize(e) : e)),
+      ];
+    } else {
+      this._buffer = this._buffer.filter((e) => !affectedIds.has(e.id));
+    }
 
-  clearUserProperties(): void {
+    this._userId = undefined;
+    this._userName = undefined;
+    this._userEmail = undefined;
     this._userProperties = {};
-  }
+    this._persistUserProperties();
+    this.clearBreadcrumbs();
+    this._rotateAnonymousId();
 
-  handleScreenView(screenName: string, previousScreen?: string): void {
-    const now = new Date();
+    // Discard the user's session without reporting it, then start an anonymous one
+    this._currentSession = undefined;
+    this._startNewSession();
 
-    if (this._currentScreen && this._screenStartTime) {
-      const timeSpent = Math.floor((now.getTime() - this._screenStartTime.getTime()) / 1000);
-      this.log(`Screen view ended: ${this._currentScreen}`, {
-        level: LogLevel.Info,
-        type: LogType.Analytics,
-        metadata: {
-          screen: this._currentScreen,
-          timeSpent,
-          nextScreen: screenName,
-        },
-      });
+    if (userId || userEmail || anonymousId) {
+      this._enqueueDeletionRequest(userId, userEmail, anonymousId);
     }
 
-    this._currentScreen = screenName;
-    this._screenStartTime = now;
+    await this._queue.flushWrites();
 
     if (this._enableDebugLogs) {
-      console.log(`Telling: Screen view - ${screenName}${previousScreen ? ` (from ${previousScreen})` : ''}`);
+      console.log(`Telling: Forgot user, ${affectedIds.size} queued events ${options.mode === 'anonymize' ? 'anonymized' : 'purged'}`);
     }
 
-    this.log(`Screen view: ${screenName}`, {
+    this._flush();
+  }
+
+  /**
+   * Queue a request for the backend to delete everything stored for the user.
+   * Bypasses consent, sampling, processors and scrubbing so the identifiers arrive intact.
+   */
+  private _enqueueDeletionRequest(
+    userId: string | undefined,
+    userEmail: string | undefined,
+    anonymousId: string | undefined
+  ): void {
+    const event = createLogEvent({
+      type: LogType.General,
       level: LogLevel.Info,
-      type: LogType.Analytics,
-      metadata: {
-        screen: screenName,
-        ...(previousScreen && { previousScreen }),
-      },
+      message: 'Delete user data',
+      timestamp: new Date().toISOString(),
+      metadata: { telling_action: TellingLogger._deleteUserDataAction },
+      device: this._deviceMetadata,
+      userId,
+      userEmail,
+      anonymousId,
+      fingerprint: `${TellingLogger._deleteUserDataAction}_${hashFingerprint(
+        `${userId ?? ''}|${userEmail ?? ''}|${anonymousId ?? ''}`
+      )}`,
     });
+    this._buffer.push(event);
+    this._queue.append(logEventToJson(event) as QueuedLogEvent);
   }
 
-  private _startFlushTimer(): void {
-    if (this._flushTimer) clearInterval(this._flushTimer);
-    this._flushTimer = setInterval(() => this._flush(), 5000);
-
-    if (this._cleanupTimer) clearInterval(this._cleanupTimer);
-    this._cleanupTimer = setInterval(() => this._rateLimiter.cleanup(), 2 * 60 * 1000);
+  private _isDeletionRequest(event: LogEvent): boolean {
+    return event.metadata?.telling_action === TellingLogger._deleteUserDataAction;
+  }
+
+  private _anonymizeEvent(event: LogEvent, identifiers: string[]): LogEvent {
+    // Session IDs are prefixed with the user or anonymous ID
+    const anonymizeSessionId = (sessionId: string) => {
+      const owner = identifiers.find((id) => sessionId.startsWith(`${id}_`));
+      return owner ? `anon_${sessionId.slice(owner.length + 1)}` : sessionId;
+    };
+    // Identifiers can be nested anywhere, e.g. in breadcrumb data, properties or contexts
+    const anonymize = (value: Record<string, unknown>) =>
+      mapValueDeep(value, {
+        mapString: (item) => (identifiers.includes(item) ? undefined : anonymizeSessionId(item)),
+        replaceKey: (key) => TellingLogger._userIdentityKeys.includes(key),
+      }) as Record<string, unknown>;
+
+    return {
+      ...event,
+      userId: undefined,
+      userName: undefined,
+      userEmail: undefined,
+      anonymousId: undefined,
+      sessionId: event.sessionId ? anonymizeSessionId(event.sessionId) : undefined,
+      metadata: event.metadata ? anonymize(event.metadata) : undefined,
+      tags: event.tags ? (anonymize(event.tags) as Record<string, string>) : undefined,
+    };
+  }
+
+  /**
+   * Set a tag on the global scope, attached to every later event
+   */
+  setTag(key: string, value: string): void {
+    this._globalScope.setTag(key, value);
+  }
+
+  setTags(tags: Record<string, string>): void {
+    this._globalScope.setTags(tags);
+  }
+
+  removeTag(key: string): void {
+    this._globalScope.removeTag(key);
+  }
+
+  /**
+   * Set a named context on the global scope, sent under `metadata.contexts`. Pass null to remove it.
+   */
+  setContext(name: string, context: Record<string, unknown> | null): void {
+    this._globalScope.setContext(name, context);
+  }
+
+  /**
+   * Run `callback` with a copy of the current scope. Tags and contexts set on it apply
+   * only to events captured during the callback. For async callbacks the scope stays
+   * active until the promise settles, so events from concurrent work may pick it up.
+   */
+  withScope<T>(callback: (scope: Scope) => T): T {
+    const scope = this._currentScope().clone();
+    this._scopeStack.push(scope);
+
+    const exit = () => {
+      const index = this._scopeStack.lastIndexOf(scope);
+      if (index !== -1) this._scopeStack.splice(index, 1);
+    };
+
+    let result: T;
+    try {
+      result = callback(scope);
+    } catch (error) {
+      exit();
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      result.then(exit, exit);
+    } else {
+      exit();
+    }
+    return result;
+  }
+
+  private _currentScope(): Scope {
+    return this._scopeStack[this._scopeStack.length - 1] ?? this._globalScope;
+  }
+
+  /**
+   * Set a property of the current user. User properties are attached to every
+   * later event and persisted until `clearUser()` or `forgetUser()`.
+   */
+  setUserProperty(key: string, value: unknown): void {
+    this._userProperties[key] = value;
+    this._persistUserProperties();
+    this.log('User property set', {
+      type: LogType.Analytics,
+      metadata: { property_key: key, property_value: value },
+    });
+  }
+
+  setUserProperties(properties: Record<string, unknown>): void {
+    Object.assign(this._userProperties, properties);
+    this._persistUserProperties();
+    this.log('User properties set', {
+      type: LogType.Analytics,
+      metadata: { properties },
+    });
+  }
+
+  getUserProperty(key: string): unknown {
+    return this._userProperties[key];
+  }
+
+  clearUserProperty(key: string): void {
+    delete this._userProperties[key];
+    this._persistUserProperties();
+  }
+
+  clearUserProperties(): void {
+    this._userProperties = {};
+    this._persistUserProperties();
+  }
+
+  /**
+   * Register properties attached to every later event, e.g. the app flavor or
+   * an A/B test variant. Persisted across launches; event metadata overrides them.
+   */
+  register(properties: Record<string, unknown>): void {
+    Object.assign(this._superProperties, properties);
+    this._persistSuperProperties();
+  }
+
+  unregister(key: string): void {
+    delete this._superProperties[key];
+    this._persistSuperProperties();
+  }
+
+  getSuperProperties(): Record<string, unknown> {
+    return { ...this._superProperties };
+  }
+
+  private _persistUserProperties(): void {
+    // Writing before the stored properties are loaded would overwrite them
+    if (!this._propertiesLoaded || this._isOptedOut()) return;
+    setStorageItem(this._storage, STORAGE_KEYS.USER_PROPERTIES, JSON.stringify(this._userProperties)).catch(
+      () => undefined
+    );
+  }
+
+  private _persistSuperProperties(): void {
+    if (!this._propertiesLoaded || this._isOptedOut()) return;
+    setStorageItem(this._storage, STORAGE_KEYS.SUPER_PROPERTIES, JSON.stringify(this._superProperties)).catch(
+      () => undefined
+    );
+  }
+
+  private async _loadProperties(): Promise<void> {
+    const load = async (key: string): Promise<Record<string, unknown>> => {
+      try {
+        const stored = await getStorageItem(this._storage, key);
+        return stored ? (JSON.parse(stored) as Record<string, unknown>) : {};
+      } catch {
+        return {};
+      }
+    };
+    // Keep anything set before loading finished, which wasn't persisted yet
+    this._superProperties = { ...(await load(STORAGE_KEYS.SUPER_PROPERTIES)), ...this._superProperties };
+    this._userProperties = { ...(await load(STORAGE_KEYS.USER_PROPERTIES)), ...this._userProperties };
+    this._propertiesLoaded = true;
+    this._persistSuperProperties();
+    this._persistUserProperties();
+  }
+
+  handleScreenView(screenName: string, previousScreen?: string, params?: Record<string, unknown>): void {
+    const now = new Date();
+
+    if (this._currentScreen && this._screenStartTime) {
+      const timeSpentMs = now.getTime() - this._screenStartTime.getTime();
+      this.log(`Screen view ended: ${this._currentScreen}`, {
+        level: LogLevel.Info,
+        type: LogType.Analytics,
+        metadata: {
+          screen: this._currentScreen,
+          timeSpent: Math.floor(timeSpentMs / 1000),
+          timeSpentMs,
+          nextScreen: screenName,
+        },
+      });
+    }
+
+    this._currentScreen = screenName;
+    this._screenStartTime = now;
+
+    this._recordBreadcrumb(
+      createBreadcrumb({
+        category: BreadcrumbCategory.Navigation,
+        message: `${previousScreen ?? '(none)'} -> ${screenName}`,
+        data: { from: previousScreen, to: screenName, ...(params && { params }) },
+      })
+    );
+
+    this.log(`Screen view: ${screenName}`, {
+      level: LogLevel.Info,
+      type: LogType.Analytics,
+      metadata: {
+        screen: screenName,
+        ...(previousScreen && { previousScreen }),
+        ...(params && { params }),
+      },
+    });
+  }
+
+  /**
+   * Report how long a screen took to render and become interactive after navigation started
+   */
+  handleScreenLoad(screenName: string, timings: { renderMs: number; interactiveMs?: number }): void {
+    this.log(`Screen load: ${screenName}`, {
+      level: LogLevel.Info,
+      type: LogType.Performance,
+      metadata: {
+        screen: screenName,
+        render_ms: Math.round(timings.renderMs),
+        ...(timings.interactiveMs !== undefined && { interactive_ms: Math.round(timings.interactiveMs) }),
+      },
+    });
+  }
+
+  private _startFlushTimer(): void {
+    if (this._flushTimer) clearInterval(this._flushTimer);
+    this._flushTimer = setInterval(() => this._flush(), 5000);
+
+    if (this._cleanupTimer) clearInterval(this._cleanupTimer);
+    this._cleanupTimer = setInterval(() => this._rateLimiter.cleanup(), 2 * 60 * 1000);
   }
 
   private async _flush(): Promise<void> {
-    if (this._buffer.length === 0) return;
+    if (this._buffer.length === 0 || !this._consentLoaded) return;
 
-    if (this._permanentFailure) {
+    if (this._keyRejected && this._nextAuthProbeTime && new Date() < this._nextAuthProbeTime) {
       if (this._enableDebugLogs) {
-        console.log('Telling: Skipping flush - permanent failure');
+        console.log('Telling: Skipping flush - API key rejected');
       }
       return;
     }
@@ -643,104 +1470,474 @@ class TellingLogger {
       return;
     }
 
+    if (!this._isOnline) {
+      return;
+    }
+
+    // Events awaiting consent stay queued; denied ones were already dropped
+    const held = this._buffer.filter((e) => this._consentForEvent(e) !== ConsentStatus.Granted);
+    const sendable = this._buffer.filter((e) => this._consentForEvent(e) === ConsentStatus.Granted);
+    if (sendable.length === 0) return;
+
+    // Only exact repeats are collapsed; a shared fingerprint or message alone doesn't make events duplicates
     const uniqueLogs = new Map<string, LogEvent>();
-    for (const logEvent of this._buffer) {
-      const hash = `${logEvent.message}_${logEvent.level}_${logEvent.stackTrace ?? ''}`;
+    for (const logEvent of sendable) {
+      const hash = [
+        logEvent.fingerprint ?? '',
+        logEvent.message,
+        logEvent.level,
+        logEvent.stackTrace ?? '',
+        JSON.stringify(logEvent.metadata ?? {}),
+      ].join('_');
       uniqueLogs.set(hash, logEvent);
     }
 
     const eventsToSend = Array.from(uniqueLogs.values());
-    this._buffer = [];
+    const sentIds = new Set(eventsToSend.map((e) => e.id));
+    this._queue.ack(sendable.filter((e) => !sentIds.has(e.id)).map((e) => e.id));
+    this._buffer = held;
+
+    eventsToSend.forEach((e) => this._inFlight.set(e.id, e));
+    const delivered = await this._deliver(eventsToSend);
+    // Events of a user forgotten during the send were already purged or anonymized
+    const result = {
+      ...delivered,
+      pending: delivered.pending.filter((e) => !this._forgottenInFlight.has(e.id)),
+    };
+    eventsToSend.forEach((e) => {
+      this._inFlight.delete(e.id);
+      this._forgottenInFlight.delete(e.id);
+    });
+    this._queue.ack(result.completed.map((e) => e.id));
+
+    const failure = result.failure;
+    if (!failure) {
+      this._consecutiveFailures = 0;
+      this._nextRetryTime = undefined;
+      if (this._keyRejected) {
+        this._clearKeyRejection();
+      }
+      return;
+    }
 
+    switch (failure.outcome) {
+      case 'unauthorized':
+        if (this._keyRejected) {
+          // Cool-down probe failed; keep the events and wait for the next probe
+          this._buffer.push(...result.pending);
+          this._rejectApiKey(failure.status, false);
+          break;
+        }
+        this._consecutiveFailures++;
+        if (this._consecutiveFailures >= TellingLogger._maxConsecutiveFailures) {
+          this._buffer.push(...result.pending);
+          this._rejectApiKey(failure.status, true);
+        } else {
+          this._requeue(result.pending);
+        }
+        break;
+
+      case 'network_error':
+        if (!(await this._refreshConnectivity())) {
+          // Offline failures are expected and don't consume the retry budget
+          this._requeue(result.pending);
+          break;
+        }
+        this._consecutiveFailures++;
+        this._setBackoff();
+        this._requeue(result.pending);
+        break;
+
+      default:
+        if (failure.retryAfterMs !== undefined) {
+          // The server said when to come back; that is throttling, not a failure
+          this._nextRetryTime = new Date(Date.now() + failure.retryAfterMs);
+        } else {
+          this._consecutiveFailures++;
+          this._setBackoff();
+        }
+        this._requeue(result.pending);
+    }
+  }
+
+  /**
+   * Send a batch, bisecting it when the server reports it as too large.
+   * Stops at the first failure that needs a retry; the unsent remainder is returned as pending.
+   */
+  private async _deliver(
+    events: LogEvent[]
+  ): Promise<{ completed: LogEvent[]; pending: LogEvent[]; failure?: ResponseClassification }> {
+    let classification: ResponseClassification;
     try {
-      const jsonPayload = JSON.stringify(eventsToSend.map(logEventToJson));
-      const jsonBytes = new TextEncoder().encode(jsonPayload);
+      const response = await this._sendBatch(events);
+      classification = classifyResponse(response);
+    } catch (error) {
+      classification = { outcome: 'network_error' };
+      this._reportDelivery(classification, events.length, error);
+      return { completed: [], pending: events, failure: classification };
+    }
+    this._reportDelivery(classification, events.length);
 
-      const useCompression = jsonBytes.length > 1024;
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'x-api-key': this._apiKey!,
-      };
+    switch (classification.outcome) {
+      case 'success':
+        return { completed: events, pending: [] };
 
-      let body: Uint8Array | string;
-      if (useCompression) {
-        body = gzip(jsonBytes);
-        headers['Content-Encoding'] = 'gzip';
-      } else {
-        body = jsonPayload;
+      case 'rejected': {
+        // Deletion requests are retried until accepted
+        const deletionRequests = events.filter((e) => this._isDeletionRequest(e));
+        const dropped = events.filter((e) => !this._isDeletionRequest(e));
+        if (this._enableDebugLogs) {
+          console.log(`Telling: Dropped ${dropped.length} logs rejected by server (${classification.status})`);
+        }
+        if (deletionRequests.length > 0) {
+          return { completed: dropped, pending: deletionRequests, failure: classification };
+        }
+        return { completed: events, pending: [] };
       }
 
-      const response = await fetch(this._baseUrl, {
-        method: 'POST',
-        headers,
-        body,
-      });
-
-      if (response.status === 200) {
-        this._consecutiveFailures = 0;
-        this._nextRetryTime = undefined;
-        this._persistLogs();
-      } else if (response.status === 403) {
-        this._consecutiveFailures++;
-        if (this._consecutiveFailures >= TellingLogger._maxConsecutiveFailures) {
-          this._permanentFailure = true;
-          this._buffer = [];
+      case 'payload_too_large': {
+        if (events.length <= 1) {
           if (this._enableDebugLogs) {
-            console.error('Telling SDK: INVALID API KEY');
+            console.log('Telling: Dropped log too large to send');
           }
+          return { completed: events, pending: [] };
         }
-        this._persistLogs();
-      } else {
-        this._consecutiveFailures++;
-        this._setBackoff();
-        if (this._consecutiveFailures < TellingLogger._maxConsecutiveFailures) {
-          this._buffer.push(...eventsToSend);
+
+        const middle = Math.ceil(events.length / 2);
+        const first = await this._deliver(events.slice(0, middle));
+        if (first.failure) {
+          return { ...first, pending: [...first.pending, ...events.slice(middle)] };
         }
-        this._persistLogs();
+        const second = await this._deliver(events.slice(middle));
+        return { ...second, completed: [...first.completed, ...second.completed] };
       }
+
+      default:
+        return { completed: [], pending: events, failure: classification };
+    }
+  }
+
+  private async _sendBatch(events: LogEvent[]): Promise<TransportResponse> {
+    const jsonPayload = JSON.stringify(events.map(logEventToJson));
+    const jsonBytes = new TextEncoder().encode(jsonPayload);
+
+    const useCompression = jsonBytes.length > 1024;
+    const payload = useCompression ? gzip(jsonBytes) : jsonPayload;
+
+    return this._transport.sendBatch({
+      apiKey: this._apiKey!,
+      payload,
+      compressed: useCompression,
+    });
+  }
+
+  private _reportDelivery(classification: ResponseClassification, eventCount: number, error?: unknown): void {
+    if (!this._onDelivery) return;
+    try {
+      this._onDelivery({ ...classification, eventCount, ...(error !== undefined && { error }) });
     } catch {
-      this._consecutiveFailures++;
-      this._setBackoff();
-      if (this._consecutiveFailures < TellingLogger._maxConsecutiveFailures) {
-        this._buffer.push(...eventsToSend);
+      // Diagnostics must never break delivery
+    }
+  }
+
+  /**
+   * Put a failed batch back in the buffer, or drop it once retries are exhausted.
+   * Deletion requests are always kept, as they must survive any time offline.
+   * Entries stay on disk until acknowledged, so requeueing needs no write.
+   */
+  private _requeue(events: LogEvent[]): void {
+    if (this._consecutiveFailures < TellingLogger._maxConsecutiveFailures) {
+      this._buffer.push(...events);
+      return;
+    }
+    this._buffer.push(...events.filter((e) => this._isDeletionRequest(e)));
+    this._queue.ack(events.filter((e) => !this._isDeletionRequest(e)).map((e) => e.id));
+  }
+
+  /**
+   * Replace the API key without re-running `init()`. Clears any rejected-key
+   * state and retries delivery of queued events with the new key.
+   */
+  setApiKey(apiKey: string): void {
+    this._apiKey = apiKey;
+    this._consecutiveFailures = 0;
+    this._nextRetryTime = undefined;
+    this._clearKeyRejection();
+
+    if (this._initialized) {
+      this._flush();
+    }
+  }
+
+  /**
+   * Stop sending with the current key until the cool-down ends, then probe with one batch.
+   * Events keep being queued in the meantime.
+   */
+  private _rejectApiKey(status: number | undefined, notify: boolean): void {
+    this._keyRejected = true;
+    this._consecutiveFailures = 0;
+    this._nextAuthProbeTime = new Date(Date.now() + this._authRetryCooldown);
+
+    if (this._apiKey) {
+      setStorageItem(
+        this._storage,
+        STORAGE_KEYS.API_KEY_REJECTED,
+        JSON.stringify({ keyHash: hashFingerprint(this._apiKey), nextProbeAt: this._nextAuthProbeTime.toISOString() })
+      ).catch(() => undefined);
+    }
+
+    if (this._enableDebugLogs) {
+      console.error(`Telling SDK: INVALID API KEY - retrying after ${this._nextAuthProbeTime.toISOString()}`);
+    }
+
+    if (notify && this._onAuthError) {
+      try {
+        this._onAuthError({ status, nextProbeAt: this._nextAuthProbeTime });
+      } catch {
+        // Never let app callbacks break delivery
       }
-      this._persistLogs();
     }
   }
 
-  private _setBackoff(): void {
-    const backoffSeconds = 5 * Math.pow(2, this._consecutiveFailures - 1);
-    this._nextRetryTime = new Date(Date.now() + backoffSeconds * 1000);
+  private _clearKeyRejection(): void {
+    this._keyRejected = false;
+    this._nextAuthProbeTime = undefined;
+    removeStorageItems(this._storage, [STORAGE_KEYS.API_KEY_REJECTED]).catch(() => undefined);
   }
 
-  private async _persistLogs(): Promise<void> {
+  /**
+   * Restore a rejection persisted by a previous launch, if it was for the same key
+   */
+  private async _loadKeyRejection(): Promise<void> {
+    this._keyRejected = false;
+    this._nextAuthProbeTime = undefined;
     try {
-      const logsJson = this._buffer.map((e) => JSON.stringify(logEventToJson(e)));
-      await setStringList(STORAGE_KEYS.LOGS_BUFFER, logsJson);
+      const stored = await getStorageItem(this._storage, STORAGE_KEYS.API_KEY_REJECTED);
+      if (!stored || !this._apiKey) return;
+
+      const { keyHash, nextProbeAt } = JSON.parse(stored) as { keyHash?: string; nextProbeAt?: string };
+      if (keyHash !== hashFingerprint(this._apiKey)) {
+        await removeStorageItems(this._storage, [STORAGE_KEYS.API_KEY_REJECTED]);
+        return;
+      }
+
+      this._keyRejected = true;
+      this._nextAuthProbeTime = nextProbeAt ? new Date(nextProbeAt) : new Date();
+    } catch {
+      // A corrupt flag only delays detection until the next 403
+    }
+  }
+
+  /**
+   * Update the user's consent for one or all categories. The choice is persisted.
+   * Buffered events of newly denied categories are discarded; newly granted ones are sent.
+   */
+  setConsent(consent: ConsentInput): void {
+    this._consent = resolveConsent(this._consent, consent);
+    setStorageItem(this._storage, STORAGE_KEYS.CONSENT, JSON.stringify(this._consent)).catch(() => undefined);
+    this._dropDeniedEvents();
+
+    if (this._enableDebugLogs) {
+      console.log('Telling: Consent updated', this._consent);
+    }
+
+    if (this._initialized) {
+      this._flush();
+    }
+  }
+
+  getConsent(): ConsentState {
+    return { ...this._consent };
+  }
+
+  /**
+   * Deny every category, discard all queued events and breadcrumbs, reset super and
+   * user properties and the anonymous ID, and delete everything the SDK has stored
+   * on the device. Only the opt-out itself is kept; nothing else is persisted until
+   * consent is granted again.
+   */
+  async optOut(): Promise<void> {
+    this._consent = resolveConsent(this._consent, ConsentStatus.Denied);
+    this._superProperties = {};
+    this._userProperties = {};
+    this._rotateAnonymousId();
+    // Pending deletion requests must still reach the backend
+    const deletionRequests = this._buffer.filter((e) => this._isDeletionRequest(e));
+    this._buffer = [];
+    this.clearBreadcrumbs();
+    this._queue.clear();
+
+    try {
+      await this._queue.flushWrites();
+      await removeStorageItems(this._storage, await getStorageKeys(this._storage, STORAGE_KEY_PREFIX));
+      await setStorageItem(this._storage, STORAGE_KEYS.CONSENT, JSON.stringify(this._consent));
+
+      for (const request of deletionRequests) {
+        this._buffer.push(request);
+        this._queue.append(logEventToJson(request) as QueuedLogEvent);
+      }
+      await this._queue.flushWrites();
     } catch (error) {
       if (this._enableDebugLogs) {
-        console.log('Telling: Failed to persist logs:', error);
+        console.log('Telling: Failed to purge storage:', error);
       }
     }
+
+    if (this._enableDebugLogs) {
+      console.log('Telling: Opted out');
+    }
   }
 
-  private async _loadPersistedLogs(): Promise<void> {
+  /**
+   * Whether every category is denied, in which case nothing is written to storage
+   */
+  private _isOptedOut(): boolean {
+    return Object.values(this._consent).every((status) => status === ConsentStatus.Denied);
+  }
+
+  private _consentForEvent(event: LogEvent): ConsentStatus {
+    if (this._isDeletionRequest(event)) return ConsentStatus.Granted;
+    return this._consent[consentCategoryForType(event.type)];
+  }
+
+  private _dropDeniedEvents(): void {
+    const denied = this._buffer.filter((e) => this._consentForEvent(e) === ConsentStatus.Denied);
+    if (denied.length === 0) return;
+    this._buffer = this._buffer.filter((e) => this._consentForEvent(e) !== ConsentStatus.Denied);
+    this._queue.ack(denied.map((e) => e.id));
+  }
+
+  private async _loadAnonymousId(): Promise<void> {
+    try {
+      this._anonymousId = (await getStorageItem(this._storage, STORAGE_KEYS.ANONYMOUS_ID)) ?? undefined;
+      this._aliasedUser = (await getStorageItem(this._storage, STORAGE_KEYS.ALIASED_USER)) ?? undefined;
+    } catch {
+      // Generate a fresh ID below
+    }
+    if (!this._anonymousId) {
+      this._rotateAnonymousId();
+    }
+  }
+
+  /**
+   * Replace the anonymous ID so later activity can't be linked to the previous user
+   */
+  private _rotateAnonymousId(): void {
+    this._anonymousId = generateUuid();
+    this._aliasedUser = undefined;
+    if (!this._isOptedOut()) {
+      setStorageItem(this._storage, STORAGE_KEYS.ANONYMOUS_ID, this._anonymousId).catch(() => undefined);
+    }
+    removeStorageItems(this._storage, [STORAGE_KEYS.ALIASED_USER]).catch(() => undefined);
+  }
+
+  private async _loadConsent(defaultConsent?: ConsentInput): Promise<void> {
+    this._consent = resolveConsent(resolveConsent({} as ConsentState, ConsentStatus.Granted), defaultConsent);
+    try {
+      const stored = await getStorageItem(this._storage, STORAGE_KEYS.CONSENT);
+      if (stored) {
+        this._consent = resolveConsent(this._consent, JSON.parse(stored) as Partial<ConsentState>);
+      }
+    } catch {
+      // Fall back to the default consent
+    }
+
+    // Events logged while consent was loading were held in memory
+    this._consentLoaded = true;
+    this._dropDeniedEvents();
+    for (const event of this._buffer) {
+      this._queue.append(logEventToJson(event) as QueuedLogEvent);
+    }
+  }
+
+  private async _setupConnectivity(connectivity?: ConnectivityProvider): Promise<void> {
+    this._connectivitySubscription?.();
+    this._connectivitySubscription = undefined;
+    this._connectivity = connectivity;
+    this._isOnline = true;
+    if (!connectivity) return;
+
+    await this._refreshConnectivity();
+    this._connectivitySubscription = connectivity.subscribe((connected) => this._onConnectivityChanged(connected));
+  }
+
+  /**
+   * Re-read the connectivity state. Without a provider the device is assumed online.
+   */
+  private async _refreshConnectivity(): Promise<boolean> {
+    if (!this._connectivity) return true;
     try {
-      const logsJson = await getStringList(STORAGE_KEYS.LOGS_BUFFER);
-      if (logsJson && logsJson.length > 0) {
+      this._isOnline = await this._connectivity.isConnected();
+    } catch {
+      this._isOnline = true;
+    }
+    return this._isOnline;
+  }
+
+  private _onConnectivityChanged(connected: boolean): void {
+    const wasOnline = this._isOnline;
+    this._isOnline = connected;
+
+    if (connected && !wasOnline) {
+      if (this._enableDebugLogs) {
+        console.log('Telling: Back online, flushing queued logs');
+      }
+      this._nextRetryTime = undefined;
+      this._flush();
+    }
+  }
+
+  private _setBackoff(): void {
+    const backoffSeconds = 5 * Math.pow(2, this._consecutiveFailures - 1);
+    this._nextRetryTime = new Date(Date.now() + backoffSeconds * 1000);
+  }
+
+  private _createQueue(): PersistentQueue<QueuedLogEvent> {
+    return new PersistentQueue({
+      storage: this._storage,
+      keyPrefix: STORAGE_KEYS.LOGS_QUEUE_PREFIX,
+      onError: (error) => {
         if (this._enableDebugLogs) {
-          console.log(`Telling: Found ${logsJson.length} unsent logs`);
+          console.log('Telling: Failed to persist logs:', error);
         }
-        for (const logString of logsJson) {
+      },
+    });
+  }
+
+  private async _loadPersistedLogs(): Promise<void> {
+    try {
+      const recovered = await this._queue.load();
+
+      // Migrate the single-key buffer written by earlier SDK versions
+      const legacyLogs = await getStringList(this._storage, STORAGE_KEYS.LOGS_BUFFER);
+      if (legacyLogs) {
+        for (const logString of legacyLogs) {
           try {
-            const event = logEventFromJson(JSON.parse(logString));
-            this._buffer.push(event);
+            const json = JSON.parse(logString) as QueuedLogEvent;
+            if (typeof json.id !== 'string') continue;
+            recovered.push(json);
+            this._queue.append(json);
           } catch {
             // Skip malformed logs
           }
         }
-        this._flush();
+        await this._queue.flushWrites();
+        await removeStorageItems(this._storage, [STORAGE_KEYS.LOGS_BUFFER]);
       }
+
+      if (recovered.length > 0 && this._enableDebugLogs) {
+        console.log(`Telling: Found ${recovered.length} unsent logs`);
+      }
+      // Older events go ahead of anything logged while init was running
+      const recoveredEvents: LogEvent[] = [];
+      for (const json of recovered) {
+        try {
+          recoveredEvents.push(logEventFromJson(json));
+        } catch {
+          // Skip malformed logs
+        }
+      }
+      this._buffer = [...recoveredEvents, ...this._buffer];
     } catch (error) {
       if (this._enableDebugLogs) {
         console.log('Telling: Failed to load persisted logs:', error);
@@ -748,20 +1945,23 @@ class TellingLogger {
     }
   }
 
-  private _startNewSession(): void {
-    this._clearBreadcrumbs();
+  private _startNewSession(previousSessionId?: string): void {
+    if (!this._keepBreadcrumbsAcrossSessions) {
+      this.clearBreadcrumbs();
+    }
 
+    const now = new Date();
     this._currentSession = {
       sessionId: this._generateSessionId(),
-      startTime: new Date(),
+      startTime: now,
+      lastActivity: now,
+      status: SessionStatus.Ok,
+      errorCount: 0,
       userId: this._userId,
       userName: this._userName,
       userEmail: this._userEmail,
     };
-
-    if (this._enableDebugLogs) {
-      console.log(`Telling: Started session ${this._currentSession.sessionId}`);
-    }
+    this._persistSession();
 
     this.log('Session started', {
       level: LogLevel.Info,
@@ -769,17 +1969,16 @@ class TellingLogger {
       metadata: {
         sessionId: this._currentSession.sessionId,
         startTime: this._currentSession.startTime.toISOString(),
+        ...(previousSessionId && { previousSessionId }),
       },
     });
   }
 
-  private _endSession(): void {
+  private _endSession(status: SessionStatus = SessionStatus.Exited, endTime: Date = new Date()): void {
     if (this._currentSession && isSessionActive(this._currentSession)) {
-      this._currentSession.endTime = new Date();
-
-      if (this._enableDebugLogs) {
-        const duration = getSessionDuration(this._currentSession);
-        console.log(`Telling: Ended session ${this._currentSession.sessionId} (${duration}s)`);
+      this._currentSession.endTime = endTime;
+      if (this._currentSession.status !== SessionStatus.Crashed) {
+        this._currentSession.status = status;
       }
 
       this.log('Session ended', {
@@ -792,31 +1991,134 @@ class TellingLogger {
     }
   }
 
+  /**
+   * Resume the session persisted by the previous launch if it was left in the
+   * background less than `_sessionTimeout` ago. Otherwise report how it ended:
+   * crashed, abnormal if the app died in the foreground, or exited.
+   */
+  private async _restoreSession(): Promise<void> {
+    this._inForeground = AppState.currentState !== 'background';
+
+    let previous: Session | undefined;
+    let diedInForeground = false;
+    try {
+      const stored = await getStorageItem(this._storage, STORAGE_KEYS.SESSION);
+      if (stored) {
+        const json = JSON.parse(stored) as Record<string, unknown>;
+        previous = sessionFromJson(json);
+        diedInForeground = json.foreground === true;
+      }
+    } catch {
+      // Start a fresh session below
+    }
+
+    if (!previous || !isSessionActive(previous)) {
+      this._startNewSession();
+      return;
+    }
+
+    const lastActivity = previous.lastActivity ?? previous.startTime;
+    const crashed = previous.status === SessionStatus.Crashed;
+    const canResume =
+      !crashed &&
+      !diedInForeground &&
+      previous.userId === this._userId &&
+      Date.now() - lastActivity.getTime() <= TellingLogger._sessionTimeout;
+
+    this._currentSession = previous;
+
+    if (canResume) {
+      previous.lastActivity = new Date();
+      this._persistSession();
+      if (this._enableDebugLogs) {
+        console.log(`Telling: Resumed session ${previous.sessionId}`);
+      }
+      this.log('Session resumed', {
+        level: LogLevel.Info,
+        type: LogType.Analytics,
+        metadata: {
+          sessionId: previous.sessionId,
+          startTime: previous.startTime.toISOString(),
+        },
+      });
+      return;
+    }
+
+    let status = SessionStatus.Exited;
+    if (crashed) status = SessionStatus.Crashed;
+    else if (diedInForeground) status = SessionStatus.Abnormal;
+    this._endSession(status, lastActivity);
+    this._startNewSession(previous.sessionId);
+  }
+
+  private _trackSessionActivity(level: LogLevel, type: LogType): void {
+    const session = this._currentSession;
+    if (!session || !isSessionActive(session)) return;
+
+    session.lastActivity = new Date();
+    if (isErrorLevel(level)) {
+      session.errorCount = (session.errorCount ?? 0) + 1;
+    }
+
+    if (type === LogType.Crash && level === LogLevel.Fatal) {
+      // The process is likely about to die, so write immediately
+      session.status = SessionStatus.Crashed;
+      this._persistSession();
+    } else if (Date.now() - this._lastSessionPersist >= TellingLogger._sessionPersistInterval) {
+      this._persistSession();
+    }
+  }
+
+  private _persistSession(): void {
+    const session = this._currentSession;
+    if (!session) return;
+    if (this._isOptedOut()) return;
+
+    this._lastSessionPersist = Date.now();
+    setStorageItem(
+      this._storage,
+      STORAGE_KEYS.SESSION,
+      JSON.stringify({ ...sessionToJson(session), foreground: this._inForeground })
+    ).catch(() => undefined);
+  }
+
   private _generateSessionId(): string {
     const timestamp = Date.now();
-    const userPrefix = this._userId ?? 'anon';
+    const userPrefix = this._userId ?? this._anonymousId ?? 'anon';
     return `${userPrefix}_${timestamp}`;
   }
 
   private _setupAppLifecycleListeners(): void {
     this._appStateSubscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
       if (nextState === 'background' || nextState === 'inactive') {
-        this._onAppPaused();
+        this._onAppPaused(nextState);
       } else if (nextState === 'active') {
         this._onAppResumed();
       }
     });
   }
 
-  private _onAppPaused(): void {
+  private _onAppPaused(state: AppStateStatus): void {
     this._lastBackgroundTime = new Date();
+    this._inForeground = false;
+    this._persistSession();
+    this._queue.flushWrites();
+    if (state === 'background') {
+      this._wentToBackground = true;
+    }
     this._flush();
   }
 
   private _onAppResumed(): void {
+    this._inForeground = true;
+    this._persistSession();
     if (this._lastBackgroundTime) {
       const timeInBackground = Date.now() - this._lastBackgroundTime.getTime();
 
+      if (this._wentToBackground) {
+        this._onWarmStart(timeInBackground);
+      }
+
       if (timeInBackground > TellingLogger._sessionTimeout) {
         if (this._enableDebugLogs) {
           console.log(`Telling: Session timed out. Starting new session.`);
@@ -826,25 +2128,68 @@ class TellingLogger {
       }
       this._lastBackgroundTime = undefined;
     }
+    this._wentToBackground = false;
   }
 
-  private _addBreadcrumb(message: string, metadata?: Record<string, unknown>): void {
-    if (!this._initialized) return;
-
-    const breadcrumb: Record<string, unknown> = {
-      message,
-      timestamp: new Date().toISOString(),
-      ...metadata,
+  /**
+   * A resume from background is a warm start, measured until the next rendered frame
+   */
+  private _onWarmStart(timeInBackground: number): void {
+    this._startType = 'warm';
+    this._startMarkTime = monotonicNow();
+    this._appReadyReported = false;
+
+    const startMarkTime = this._startMarkTime;
+    const reportFirstFrame = () => {
+      this._logAppStart('first_frame', monotonicNow() - startMarkTime, {
+        background_duration_ms: timeInBackground,
+      });
     };
+    if (typeof requestAnimationFrame === 'function') {
+      requestAnimationFrame(reportFirstFrame);
+    } else {
+      setTimeout(reportFirstFrame, 0);
+    }
+  }
+
+  /**
+   * Record a breadcrumb. The most recent breadcrumbs are attached to crash events.
+   */
+  addBreadcrumb(options: BreadcrumbOptions): void {
+    this._recordBreadcrumb(createBreadcrumb(options));
+  }
+
+  private _recordBreadcrumb(breadcrumb: Breadcrumb): void {
+    if (!this._initialized || this._maxBreadcrumbs === 0) return;
+
+    let recorded: Breadcrumb | null = breadcrumb;
+    if (this._beforeBreadcrumb) {
+      try {
+        recorded = this._beforeBreadcrumb(breadcrumb);
+      } catch (error) {
+        if (this._enableDebugLogs) {
+          console.log('Telling: beforeBreadcrumb failed:', error);
+        }
+      }
+      if (!recorded) return;
+    }
 
-    this._breadcrumbs.push(breadcrumb);
+    if (this._scrubber) {
+      recorded = this._scrubber.scrubBreadcrumb(recorded);
+    }
+
+    this._breadcrumbs.push(recorded);
 
-    if (this._breadcrumbs.length > TellingLogger._maxBreadcrumbs) {
-      this._breadcrumbs.shift();
+    if (this._breadcrumbs.length > this._maxBreadcrumbs) {
+      this._breadcrumbs.splice(0, this._breadcrumbs.length - this._maxBreadcrumbs);
     }
   }
 
-  private _clearBreadcrumbs(): void {
+  getBreadcrumbs(): Breadcrumb[] {
+    return [...this._breadcrumbs];
+  }
+
+  clearBreadcrumbs(): void {
     this._breadcrumbs = [];
   }
 
@@ -852,8 +2197,33 @@ class TellingLogger {
     if (this._flushTimer) clearInterval(this._flushTimer);
     if (this._cleanupTimer) clearInterval(this._cleanupTimer);
     if (this._appStateSubscription) this._appStateSubscription.remove();
+    this.disableNetworkTracking();
+    this.disableConsoleCapture();
+    this._connectivitySubscription?.();
+    this._connectivitySubscription = undefined;
+    this._persistSession();
+    this._queue.flushWrites();
   }
 }
 
-export { TellingLogger };
-export type { InitOptions, LogOptions, FunnelOptions, ExceptionOptions, UserOptions };
+/**
+ * Create an independent logger client, e.g. for an embedded module reporting to another project
+ */
+function createClient(apiKey: string, options?: InitOptions): Promise<TellingLogger> {
+  return TellingLogger.createClient(apiKey, options);
+}
+
+export { TellingLogger, createClient };
+export type {
+  InitOptions,
+  DeliveryReport,
+  AuthError,
+  LogOptions,
+  BreadcrumbOptions,
+  NetworkTrackingOptions,
+  ConsoleCaptureOptions,
+  FunnelOptions,
+  ExceptionOptions,
+  UserOptions,
+  ForgetUserOptions,
+};
@@ -0,0 +1,4 @@
+export { Span, Transaction, SpanStatus, spanToJson } from './span';
+export type { SpanOptions } from './span';
+export { getBundleStartTime } from './startup';
+export type { StartType } from './startup';
@@ -0,0 +1,140 @@
+import { monotonicNow } from '../utils/clock';
+
+/**
+ * Outcome of a span
+ */
+export enum SpanStatus {
+  Ok = 'ok',
+  Error = 'error',
+  Cancelled = 'cancelled',
+  DeadlineExceeded = 'deadline_exceeded',
+  NotFound = 'not_found',
+  PermissionDenied = 'permission_denied',
+}
+
+export interface SpanOptions {
+  description?: string;
+  tags?: Record<string, string>;
+  data?: Record<string, unknown>;
+}
+
+function generateSpanId(): string {
+  let id = '';
+  for (let i = 0; i < 16; i++) {
+    id += Math.floor(Math.random() * 16).toString(16);
+  }
+  return id;
+}
+
+/**
+ * A timed operation. Durations use a monotonic clock.
+ */
+export class Span {
+  readonly spanId = generateSpanId();
+  readonly parentSpanId?: string;
+  readonly op: string;
+  readonly startTimestamp = new Date().toISOString();
+  description?: string;
+  status?: SpanStatus;
+  readonly tags: Record<string, string>;
+  readonly data: Record<string, unknown>;
+  readonly children: Span[] = [];
+
+  private readonly _start = monotonicNow();
+  private _end?: number;
+
+  constructor(op: string, options: SpanOptions = {}, parentSpanId?: string) {
+    this.op = op;
+    this.parentSpanId = parentSpanId;
+    this.description = options.description;
+    this.tags = { ...options.tags };
+    this.data = { ...options.data };
+  }
+
+  get isFinished(): boolean {
+    return this._end !== undefined;
+  }
+
+  /** Duration in milliseconds, or undefined while the span is running */
+  get durationMs(): number | undefined {
+    return this._end !== undefined ? this._end - this._start : undefined;
+  }
+
+  startChild(op: string, options?: SpanOptions): Span {
+    const child = new Span(op, options, this.spanId);
+    this.children.push(child);
+    return child;
+  }
+
+  setTag(key: string, value: string): this {
+    this.tags[key] = value;
+    return this;
+  }
+
+  setData(key: string, value: unknown): this {
+    this.data[key] = value;
+    return this;
+  }
+
+  setStatus(status: SpanStatus): this {
+    this.status = status;
+    return this;
+  }
+
+  finish(endTime: number = monotonicNow()): void {
+    if (this._end !== undefined) return;
+    this._end = Math.max(endTime, this._start);
+    this.status = this.status ?? SpanStatus.Ok;
+  }
+
+  /** Finish every unfinished descendant as cancelled at the given time */
+  protected _cancelUnfinishedChildren(endTime: number): void {
+    for (const child of this.children) {
+      if (!child.isFinished) {
+        child.status = child.status ?? SpanStatus.Cancelled;
+        child._cancelUnfinishedChildren(endTime);
+        child.finish(endTime);
+      }
+    }
+  }
+}
+
+/**
+ * Root span of a span tree. Reported as a single Performance event when finished.
+ */
+export class Transaction extends Span {
+  readonly name: string;
+  private readonly _onFinish: (transaction: Transaction) => void;
+
+  constructor(name: string, onFinish: (transaction: Transaction) => void, options: SpanOptions & { op?: string } = {}) {
+    super(options.op ?? 'transaction', options);
+    this.name = name;
+    this._onFinish = onFinish;
+  }
+
+  finish(endTime: number = monotonicNow()): void {
+    if (this.isFinished) return;
+    this._cancelUnfinishedChildren(endTime);
+    super.finish(endTime);
+    this._onFinish(this);
+  }
+}
+
+export function spanToJson(span: Span): Record<string, unknown> {
+  const json: Record<string, unknown> = {
+    span_id: span.spanId,
+    op: span.op,
+    start_timestamp: span.startTimestamp,
+    duration_ms: span.durationMs !== undefined ? Math.round(span.durationMs * 1000) / 1000 : undefined,
+    status: span.status,
+  };
+
+  if (span.parentSpanId) json.parent_span_id = span.parentSpanId;
+  if (span instanceof Transaction) json.name = span.name;
+  if (span.description) json.description = span.description;
+  if (Object.keys(span.tags).length > 0) json.tags = span.tags;
+  if (Object.keys(span.data).length > 0) json.data = span.data;
+  if (span.children.length > 0) json.spans = span.children.map(spanToJson);
+
+  return json;
+}
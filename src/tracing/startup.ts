@@ -0,0 +1,22 @@
+import { monotonicNow } from '../utils/clock';
+
+/**
+ * When the JS bundle started executing. Metro's prelude records `__BUNDLE_START_TIME__`
+ * with `nativePerformanceNow`, the clock behind `performance.now`. Without it, e.g. with
+ * another bundler, this falls back to when the SDK module was evaluated, so cold start
+ * times then depend on importing the SDK at the top of the app entry file.
+ */
+const bundleStartTime = readBundleStartTime();
+
+function readBundleStartTime(): number {
+  const now = monotonicNow();
+  const metroStartTime = (globalThis as { __BUNDLE_START_TIME__?: unknown }).__BUNDLE_START_TIME__;
+  // A start time from another clock, such as Date.now(), would be in the future
+  return typeof metroStartTime === 'number' && metroStartTime <= now ? metroStartTime : now;
+}
+
+export function getBundleStartTime(): number {
+  return bundleStartTime;
+}
+
+export type StartType = 'cold' | 'warm';
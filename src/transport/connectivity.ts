@@ -0,0 +1,39 @@
+/**
+ * Reports whether the device can currently reach the network.
+ * Back it with NetInfo, or with a stub in tests.
+ */
+export interface ConnectivityProvider {
+  isConnected(): boolean | Promise<boolean>;
+  /** Subscribe to connectivity changes. Returns an unsubscribe function. */
+  subscribe(listener: (connected: boolean) => void): () => void;
+}
+
+/** The subset of `@react-native-community/netinfo` used by the NetInfo provider */
+interface NetInfoLike {
+  fetch(): Promise<NetInfoStateLike>;
+  addEventListener(listener: (state: NetInfoStateLike) => void): () => void;
+}
+
+interface NetInfoStateLike {
+  isConnected: boolean | null;
+  isInternetReachable?: boolean | null;
+}
+
+function isStateConnected(state: NetInfoStateLike): boolean {
+  // Unknown (null) reachability counts as connected so events are not held back needlessly
+  return state.isConnected !== false && state.isInternetReachable !== false;
+}
+
+/**
+ * Connectivity provider backed by `@react-native-community/netinfo`.
+ *
+ * @example
+ * import NetInfo from '@react-native-community/netinfo';
+ * TellingLogger.instance.init(apiKey, { connectivity: createNetInfoConnectivityProvider(NetInfo) });
+ */
+export function createNetInfoConnectivityProvider(netInfo: NetInfoLike): ConnectivityProvider {
+  return {
+    isConnected: async () => isStateConnected(await netInfo.fetch()),
+    subscribe: (listener) => netInfo.addEventListener((state) => listener(isStateConnected(state))),
+  };
+}
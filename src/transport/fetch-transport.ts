@@ -0,0 +1,80 @@
+import {
+  Transport,
+  TransportResponse,
+  SendBatchRequest,
+  VersionCheckRequest,
+} from './transport';
+
+export const DEFAULT_BASE_URL = 'https://tellingserver.globeapp.dev/api/v1';
+
+function headersToRecord(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value: string, key: string) => {
+    result[key.toLowerCase()] = value;
+  });
+  return result;
+}
+
+/**
+ * Default transport backed by the global `fetch`
+ */
+export class FetchTransport implements Transport {
+  readonly baseUrl: string;
+
+  constructor(baseUrl: string = DEFAULT_BASE_URL) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  get logsUrl(): string {
+    return `${this.baseUrl}/logs`;
+  }
+
+  get versionCheckUrl(): string {
+    return `${this.baseUrl}/project/version-check`;
+  }
+
+  async sendBatch(request: SendBatchRequest): Promise<TransportResponse> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'x-api-key': request.apiKey,
+    };
+    if (request.compressed) {
+      headers['Content-Encoding'] = 'gzip';
+    }
+
+    const response = await fetch(this.logsUrl, {
+      method: 'POST',
+      headers,
+      body: request.payload,
+    });
+
+    return {
+      status: response.status,
+      headers: headersToRecord(response.headers),
+    };
+  }
+
+  async fetchVersionCheck(request: VersionCheckRequest): Promise<TransportResponse> {
+    const url = `${this.versionCheckUrl}?platform=${request.platform}&version=${encodeURIComponent(request.version)}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'x-api-key': request.apiKey,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      body = undefined;
+    }
+
+    return {
+      status: response.status,
+      headers: headersToRecord(response.headers),
+      body,
+    };
+  }
+}
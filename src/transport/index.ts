@@ -0,0 +1,6 @@
+export { FetchTransport, DEFAULT_BASE_URL } from './fetch-transport';
+export type { Transport, TransportResponse, SendBatchRequest, VersionCheckRequest } from './transport';
+export { createNetInfoConnectivityProvider } from './connectivity';
+export type { ConnectivityProvider } from './connectivity';
+export { classifyResponse, parseRetryAfter } from './response-classifier';
+export type { DeliveryOutcome, ResponseClassification } from './response-classifier';
@@ -0,0 +1,65 @@
+import { TransportResponse } from './transport';
+
+/**
+ * How a batch delivery attempt should be handled
+ */
+export type DeliveryOutcome =
+  /** Accepted (any 2xx) */
+  | 'success'
+  /** Transient failure (408, 429, 5xx); send again later */
+  | 'retry'
+  /** Rejected as malformed (other 4xx); retrying will never succeed */
+  | 'rejected'
+  /** 413; split the batch and send the halves */
+  | 'payload_too_large'
+  /** 401/403; the API key was not accepted */
+  | 'unauthorized'
+  /** The request never got a response */
+  | 'network_error';
+
+export interface ResponseClassification {
+  outcome: DeliveryOutcome;
+  status?: number;
+  /** Delay requested by the server through `Retry-After` */
+  retryAfterMs?: number;
+}
+
+/**
+ * Parse a `Retry-After` header given as delay seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+export function classifyResponse(response: TransportResponse, now: number = Date.now()): ResponseClassification {
+  const status = response.status;
+
+  if (status >= 200 && status < 300) {
+    return { outcome: 'success', status };
+  }
+  if (status === 401 || status === 403) {
+    return { outcome: 'unauthorized', status };
+  }
+  if (status === 413) {
+    return { outcome: 'payload_too_large', status };
+  }
+  if (status === 429 || status === 503) {
+    return { outcome: 'retry', status, retryAfterMs: parseRetryAfter(response.headers?.['retry-after'], now) };
+  }
+  if (status === 408 || status >= 500) {
+    return { outcome: 'retry', status };
+  }
+  if (status >= 400) {
+    return { outcome: 'rejected', status };
+  }
+  return { outcome: 'retry', status };
+}
@@ -0,0 +1,37 @@
+/**
+ * Delivery abstraction used by TellingLogger to talk to the backend.
+ * Swap in a custom implementation to route through a proxy, a local
+ * stand-in server during tests, or an alternative delivery mechanism.
+ */
+
+export interface TransportResponse {
+  status: number;
+  /** Response headers with lower-cased names */
+  headers?: Record<string, string>;
+  /** Parsed JSON body, if the response carried one */
+  body?: unknown;
+}
+
+export interface SendBatchRequest {
+  apiKey: string;
+  /** Serialized JSON array of log events, gzipped when `compressed` is true */
+  payload: Uint8Array | string;
+  compressed: boolean;
+}
+
+export interface VersionCheckRequest {
+  apiKey: string;
+  platform: 'ios' | 'android';
+  version: string;
+}
+
+export interface Transport {
+  /** Base URL the transport talks to, excluded from network instrumentation */
+  readonly baseUrl?: string;
+
+  /** Deliver a batch of log events */
+  sendBatch(request: SendBatchRequest): Promise<TransportResponse>;
+
+  /** Ask the backend whether the given app version requires an update */
+  fetchVersionCheck(request: VersionCheckRequest): Promise<TransportResponse>;
+}
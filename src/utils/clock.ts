@@ -0,0 +1,8 @@
+/**
+ * Monotonic milliseconds, unaffected by wall clock changes.
+ * Falls back to Date.now() where `performance.now` is unavailable.
+ */
+export function monotonicNow(): number {
+  const performance = (globalThis as { performance?: { now?: () => number } }).performance;
+  return typeof performance?.now === 'function' ? performance.now() : Date.now();
+}
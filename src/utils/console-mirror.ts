@@ -0,0 +1,35 @@
+import { LogEvent, LogLevel } from '../models';
+
+type ConsoleMethod = 'debug' | 'info' | 'warn' | 'error';
+
+const CONSOLE_METHODS: Record<LogLevel, ConsoleMethod> = {
+  [LogLevel.Trace]: 'debug',
+  [LogLevel.Debug]: 'debug',
+  [LogLevel.Info]: 'info',
+  [LogLevel.Warning]: 'warn',
+  [LogLevel.Error]: 'error',
+  [LogLevel.Fatal]: 'error',
+};
+
+/**
+ * Format an event as a single readable console line, e.g.
+ * `[Telling] INFO analytics: Screen view: Home`
+ */
+export function formatEventForConsole(event: LogEvent): string {
+  return `[Telling] ${event.level.toUpperCase()} ${event.type}: ${event.message}`;
+}
+
+/**
+ * Mirror an event to the Metro console using the `console.*` method for its level
+ */
+export function mirrorEventToConsole(event: LogEvent): void {
+  const method = CONSOLE_METHODS[event.level] ?? 'log';
+  const args: unknown[] = [formatEventForConsole(event)];
+  if (event.metadata && Object.keys(event.metadata).length > 0) {
+    args.push(event.metadata);
+  }
+  if (event.stackTrace) {
+    args.push(`\n${event.stackTrace}`);
+  }
+  console[method](...args);
+}
@@ -0,0 +1,57 @@
+import { Breadcrumb, LogEvent } from '../models';
+
+/**
+ * Enriches, rewrites or drops a LogEvent before it is buffered.
+ * Return `null` to drop the event. May be sync or async.
+ */
+export type EventProcessor = (event: LogEvent) => LogEvent | null | Promise<LogEvent | null>;
+
+/**
+ * Rewrites or drops a breadcrumb before it is recorded. Return `null` to drop it.
+ */
+export type BeforeBreadcrumbCallback = (breadcrumb: Breadcrumb) => Breadcrumb | null;
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return typeof (value as PromiseLike<T> | undefined)?.then === 'function';
+}
+
+/**
+ * Runs the event through each processor in order. Stays synchronous until a
+ * processor returns a promise, so the common all-sync chain preserves log order.
+ * A processor that throws is skipped and the event continues unchanged.
+ */
+export function runEventProcessors(
+  event: LogEvent,
+  processors: EventProcessor[],
+  onError?: (error: unknown) => void,
+  startIndex = 0
+): LogEvent | null | Promise<LogEvent | null> {
+  let current: LogEvent | null = event;
+
+  for (let i = startIndex; i < processors.length; i++) {
+    if (!current) return null;
+
+    let result: LogEvent | null | Promise<LogEvent | null>;
+    try {
+      result = processors[i](current);
+    } catch (error) {
+      onError?.(error);
+      continue;
+    }
+
+    if (isPromiseLike<LogEvent | null>(result)) {
+      const previous: LogEvent = current;
+      return Promise.resolve(result).then(
+        (resolved) => (resolved ? runEventProcessors(resolved, processors, onError, i + 1) : null),
+        (error) => {
+          onError?.(error);
+          return runEventProcessors(previous, processors, onError, i + 1);
+        }
+      );
+    }
+
+    current = result;
+  }
+
+  return current;
+}
@@ -0,0 +1,107 @@
+/**
+ * Deterministic crash fingerprinting for client-side issue grouping.
+ * Ignores line/column noise and dynamic values so the same bug groups
+ * together across builds and occurrences.
+ */
+
+type StackTraceElement = { file: string; line: string; method: string; column?: string; class?: string };
+
+const MAX_FINGERPRINT_FRAMES = 5;
+
+const DYNAMIC_VALUE_PATTERNS: Array<[RegExp, string]> = [
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, '<email>'],
+  [/\bhttps?:\/\/[^\s"'<>()]+/gi, '<url>'],
+  [/\b0x[0-9a-f]+\b/gi, '<hex>'],
+  [/\b[0-9a-f]{16,}\b/gi, '<hex>'],
+  [/"[^"]*"|'[^']*'|`[^`]*`/g, '<str>'],
+  [/\d+(\.\d+)?/g, '<num>'],
+];
+
+/**
+ * Replace IDs, numbers, quoted strings and similar dynamic values with placeholders
+ */
+export function normalizeMessage(message: string): string {
+  let normalized = message;
+  for (const [pattern, placeholder] of DYNAMIC_VALUE_PATTERNS) {
+    normalized = normalized.replace(pattern, placeholder);
+  }
+  return normalized.trim();
+}
+
+/**
+ * Whether a frame belongs to app code rather than dependencies or the runtime
+ */
+export function isInAppFrame(frame: StackTraceElement): boolean {
+  const file = frame.file;
+  if (!file) return false;
+  if (file.includes('node_modules')) return false;
+  if (file === 'native' || file.includes('[native code]')) return false;
+  if (file.startsWith('node:') || file.startsWith('internal/')) return false;
+  return true;
+}
+
+/**
+ * Strip query strings, hosts, bundle hash suffixes and the Hermes `address at` prefix from a frame file
+ */
+function normalizeFile(file: string): string {
+  return file
+    .replace(/^address at\s+/, '')
+    .replace(/\?.*$/, '')
+    .replace(/^[a-z]+:\/\/[^/]+/i, '')
+    .replace(/\.[0-9a-f]{8,}(?=\.)/gi, '');
+}
+
+/**
+ * 53-bit string hash (two FNV-1a style lanes), rendered as hex
+ */
+export function hashFingerprint(value: string): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 0x01000193);
+    h2 = Math.imul(h2 ^ char, 0x5bd1e995);
+  }
+  const high = (h2 >>> 0) & 0x1fffff;
+  return `${high.toString(16).padStart(6, '0')}${(h1 >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * Whether frames come from a minified single-line bundle, where file, line and
+ * method names are the same for unrelated code
+ */
+function isMinified(frames: StackTraceElement[]): boolean {
+  const file = normalizeFile(frames[0].file);
+  return frames.every((frame) => Number(frame.line) <= 1 && normalizeFile(frame.file) === file);
+}
+
+/**
+ * Compute a grouping fingerprint from normalized in-app frames, falling back to
+ * all frames and finally to the exception type and normalized message.
+ * Minified frames also keep their column, plus the normalized message.
+ */
+export function computeFingerprint(params: {
+  message: string;
+  exceptionType?: string;
+  stackTraceElements?: StackTraceElement[];
+}): string {
+  const frames = params.stackTraceElements ?? [];
+  const inAppFrames = frames.filter(isInAppFrame);
+  const groupingFrames = (inAppFrames.length > 0 ? inAppFrames : frames).slice(0, MAX_FINGERPRINT_FRAMES);
+
+  const parts: string[] = [params.exceptionType ?? 'Error'];
+  const minified = groupingFrames.length > 0 && isMinified(groupingFrames);
+  if (groupingFrames.length > 0) {
+    for (const frame of groupingFrames) {
+      const method = frame.class ? `${frame.class}.${frame.method}` : frame.method;
+      const position = minified ? `:${frame.column ?? ''}` : '';
+      parts.push(`${normalizeFile(frame.file)}${position}|${method}`);
+    }
+  }
+  if (groupingFrames.length === 0 || minified) {
+    parts.push(normalizeMessage(params.message));
+  }
+
+  return hashFingerprint(parts.join('\n'));
+}
@@ -0,0 +1,10 @@
+/**
+ * Random RFC 4122 version 4 identifier. Not cryptographically secure, which is
+ * fine for install IDs and avoids depending on a native crypto module.
+ */
+export function generateUuid(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
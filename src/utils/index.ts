@@ -1,6 +1,29 @@
 export { collectDeviceInfo } from './device-info-collector';
 export { LogRateLimiter } from './rate-limiter';
-export { STORAGE_KEYS, getStorageItem, setStorageItem, getStringList, setStringList } from './storage';
+export {
+  STORAGE_KEYS,
+  STORAGE_KEY_PREFIX,
+  getStorageItem,
+  setStorageItem,
+  getStringList,
+  setStringList,
+  removeStorageItems,
+  getStorageKeys,
+  getStorageItems,
+} from './storage';
+export { asyncStorageAdapter, MemoryStorageAdapter, createNamespacedStorage } from './storage-adapter';
+export type { StorageAdapter } from './storage-adapter';
+export { PersistentQueue } from './persistent-queue';
 export { tryRun, tryRunVoid, tryRunSync } from './try-catch';
 export { parseStackTrace, stackFramesToJson } from './stack-trace-parser';
 export type { StackFrame } from './stack-trace-parser';
+export { runEventProcessors } from './event-processor';
+export type { EventProcessor, BeforeBreadcrumbCallback } from './event-processor';
+export { PiiScrubber, mapValueDeep } from './scrubber';
+export type { ScrubOptions, ScrubPatterns, DeepMapOptions } from './scrubber';
+export { EventSampler } from './sampler';
+export type { SamplingOptions, SamplingRule, SamplingDecision } from './sampler';
+export { mirrorEventToConsole, formatEventForConsole } from './console-mirror';
+export { computeFingerprint, normalizeMessage, hashFingerprint } from './fingerprint';
+export { monotonicNow } from './clock';
+export { generateUuid } from './id';
@@ -0,0 +1,206 @@
+import {
+  getStorageItems,
+  getStorageKeys,
+  removeStorageItems,
+  setStorageItem,
+} from './storage';
+import { StorageAdapter } from './storage-adapter';
+
+/**
+ * Append-only on-disk queue for unsent entries.
+ *
+ * Entries are written to small numbered chunks instead of re-serializing the
+ * whole buffer on every change. Writes are coalesced and run one at a time, so
+ * concurrent appends and acknowledgements never race. Entries are deleted only
+ * once acknowledged; a chunk is removed when all of its entries are.
+ */
+export class PersistentQueue<T extends { id: string }> {
+  private readonly _storage: StorageAdapter;
+  private readonly _keyPrefix: string;
+  private readonly _chunkSize: number;
+  private readonly _writeDelay: number;
+  private readonly _onError?: (error: unknown) => void;
+
+  private _chunks = new Map<number, T[]>();
+  private _chunkById = new Map<string, number>();
+  private _openChunk?: number;
+  private _nextChunk = 0;
+  private _loaded = false;
+  private _pendingAppends: T[] = [];
+
+  private _dirtyChunks = new Set<number>();
+  private _writeTimer?: ReturnType<typeof setTimeout>;
+  private _writing: Promise<void> = Promise.resolve();
+
+  constructor(options: {
+    storage: StorageAdapter;
+    keyPrefix: string;
+    chunkSize?: number;
+    writeDelay?: number;
+    onError?: (error: unknown) => void;
+  }) {
+    this._storage = options.storage;
+    this._keyPrefix = options.keyPrefix;
+    this._chunkSize = options.chunkSize ?? 50;
+    this._writeDelay = options.writeDelay ?? 100;
+    this._onError = options.onError;
+  }
+
+  get size(): number {
+    return this._chunkById.size + this._pendingAppends.length;
+  }
+
+  /**
+   * Recover entries left on disk by a previous launch, oldest first.
+   * Entries appended before loading finishes are held in memory and written
+   * after the recovered chunks, so they can never overwrite them.
+   * Unreadable chunks are discarded.
+   */
+  async load(): Promise<T[]> {
+    try {
+      return await this._load();
+    } finally {
+      this._loaded = true;
+      const pending = this._pendingAppends;
+      this._pendingAppends = [];
+      pending.forEach((item) => this.append(item));
+    }
+  }
+
+  private async _load(): Promise<T[]> {
+    const keys = await getStorageKeys(this._storage, this._keyPrefix);
+    const entries = await getStorageItems(this._storage, keys);
+    const recovered: T[] = [];
+    const unreadable: string[] = [];
+
+    const chunks = entries
+      .map(([key, value]) => ({ key, index: parseInt(key.substring(this._keyPrefix.length), 10), value }))
+      .sort((a, b) => a.index - b.index);
+
+    for (const { key, index, value } of chunks) {
+      let items: T[];
+      try {
+        if (!Number.isFinite(index) || !value) throw new Error('Malformed chunk');
+        items = JSON.parse(value) as T[];
+        if (!Array.isArray(items)) throw new Error('Malformed chunk');
+      } catch {
+        unreadable.push(key);
+        continue;
+      }
+
+      const kept = items.filter((item) => item && typeof item.id === 'string' && !this._chunkById.has(item.id));
+      this._chunks.set(index, kept);
+      for (const item of kept) {
+        this._chunkById.set(item.id, index);
+        recovered.push(item);
+      }
+      this._nextChunk = Math.max(this._nextChunk, index + 1);
+    }
+
+    if (unreadable.length > 0) {
+      await this._enqueueWrite(() => removeStorageItems(this._storage, unreadable));
+    }
+
+    return recovered;
+  }
+
+  append(item: T): void {
+    if (!this._loaded) {
+      if (!this._pendingAppends.some((pending) => pending.id === item.id)) {
+        this._pendingAppends.push(item);
+      }
+      return;
+    }
+    if (this._chunkById.has(item.id)) return;
+
+    let chunkIndex = this._openChunk;
+    if (chunkIndex === undefined || (this._chunks.get(chunkIndex)?.length ?? 0) >= this._chunkSize) {
+      chunkIndex = this._nextChunk++;
+      this._openChunk = chunkIndex;
+      this._chunks.set(chunkIndex, []);
+    }
+
+    this._chunks.get(chunkIndex)!.push(item);
+    this._chunkById.set(item.id, chunkIndex);
+    this._markDirty(chunkIndex);
+  }
+
+  /**
+   * Delete entries that no longer need to be kept, e.g. after a successful send
+   */
+  ack(ids: string[]): void {
+    if (this._pendingAppends.length > 0) {
+      this._pendingAppends = this._pendingAppends.filter((item) => !ids.includes(item.id));
+    }
+    for (const id of ids) {
+      const chunkIndex = this._chunkById.get(id);
+      if (chunkIndex === undefined) continue;
+      this._chunkById.delete(id);
+
+      const chunk = this._chunks.get(chunkIndex);
+      if (chunk) {
+        this._chunks.set(chunkIndex, chunk.filter((item) => item.id !== id));
+      }
+      this._markDirty(chunkIndex);
+    }
+  }
+
+  /** Delete every entry */
+  clear(): void {
+    this._pendingAppends = [];
+    for (const chunkIndex of this._chunks.keys()) {
+      this._chunks.set(chunkIndex, []);
+      this._markDirty(chunkIndex);
+    }
+    this._chunkById.clear();
+  }
+
+  /**
+   * Write pending changes now, e.g. before the app is suspended
+   */
+  flushWrites(): Promise<void> {
+    if (this._writeTimer) {
+      clearTimeout(this._writeTimer);
+      this._writeTimer = undefined;
+    }
+    if (this._dirtyChunks.size === 0) return this._writing;
+
+    const dirty = Array.from(this._dirtyChunks);
+    this._dirtyChunks.clear();
+    return this._enqueueWrite(() => this._writeChunks(dirty));
+  }
+
+  private _markDirty(chunkIndex: number): void {
+    this._dirtyChunks.add(chunkIndex);
+    if (!this._writeTimer) {
+      this._writeTimer = setTimeout(() => {
+        this._writeTimer = undefined;
+        this.flushWrites();
+      }, this._writeDelay);
+    }
+  }
+
+  private async _writeChunks(chunkIndexes: number[]): Promise<void> {
+    const emptyKeys: string[] = [];
+
+    for (const chunkIndex of chunkIndexes) {
+      const chunk = this._chunks.get(chunkIndex);
+      const key = `${this._keyPrefix}${chunkIndex}`;
+
+      if (!chunk || chunk.length === 0) {
+        // A closed chunk that is fully acknowledged is gone for good
+        if (chunkIndex !== this._openChunk) this._chunks.delete(chunkIndex);
+        emptyKeys.push(key);
+      } else {
+        await setStorageItem(this._storage, key, JSON.stringify(chunk));
+      }
+    }
+
+    await removeStorageItems(this._storage, emptyKeys);
+  }
+
+  private _enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this._writing = this._writing.then(write).catch((error) => this._onError?.(error));
+    return this._writing;
+  }
+}
@@ -0,0 +1,80 @@
+import { LogEvent, LogLevel, LogType } from '../models';
+
+/**
+ * Sample rate for events matching a type and/or level.
+ * A rule without `type` or `level` matches any value for that field.
+ */
+export interface SamplingRule {
+  type?: LogType;
+  level?: LogLevel;
+  /** Fraction of matching events to keep, between 0 and 1 */
+  rate: number;
+}
+
+export interface SamplingOptions {
+  /** Evaluated in order; the first matching rule applies */
+  rules?: SamplingRule[];
+  /** Rate for events matching no rule. Defaults to 1. */
+  defaultRate?: number;
+  /**
+   * Decide once per session whether a rule's events are kept, so a sampled-in
+   * session reports complete data. Defaults to true.
+   */
+  sessionConsistent?: boolean;
+}
+
+export interface SamplingDecision {
+  sampled: boolean;
+  rate: number;
+}
+
+function clampRate(rate: number): number {
+  if (Number.isNaN(rate)) return 1;
+  return Math.min(Math.max(rate, 0), 1);
+}
+
+/**
+ * FNV-1a hash mapped onto [0, 1)
+ */
+function hashToUnitInterval(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Per-type and per-level event sampler
+ */
+export class EventSampler {
+  private readonly _rules: SamplingRule[];
+  private readonly _defaultRate: number;
+  private readonly _sessionConsistent: boolean;
+
+  constructor(options: SamplingOptions = {}) {
+    this._rules = (options.rules ?? []).map((rule) => ({ ...rule, rate: clampRate(rule.rate) }));
+    this._defaultRate = clampRate(options.defaultRate ?? 1);
+    this._sessionConsistent = options.sessionConsistent ?? true;
+  }
+
+  sample(event: LogEvent): SamplingDecision {
+    const ruleIndex = this._rules.findIndex(
+      (rule) =>
+        (rule.type === undefined || rule.type === event.type) &&
+        (rule.level === undefined || rule.level === event.level)
+    );
+    const rate = ruleIndex >= 0 ? this._rules[ruleIndex].rate : this._defaultRate;
+
+    if (rate >= 1) return { sampled: true, rate };
+    if (rate <= 0) return { sampled: false, rate };
+
+    const roll =
+      this._sessionConsistent && event.sessionId
+        ? hashToUnitInterval(`${event.sessionId}:${ruleIndex}`)
+        : Math.random();
+
+    return { sampled: roll < rate, rate };
+  }
+}
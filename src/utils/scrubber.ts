@@ -0,0 +1,248 @@
+import { Breadcrumb, LogEvent } from '../models';
+
+/**
+ * Built-in PII scrubbing rules. Every rule is enabled unless set to false.
+ */
+export interface ScrubPatterns {
+  email?: boolean;
+  phone?: boolean;
+  creditCard?: boolean;
+  jwt?: boolean;
+  bearerToken?: boolean;
+}
+
+export interface ScrubOptions {
+  /** Toggle individual built-in patterns */
+  patterns?: ScrubPatterns;
+  /** Additional patterns whose matches are replaced */
+  customPatterns?: RegExp[];
+  /** Metadata keys whose values are always replaced (case, `_` and `-` insensitive) */
+  denylistKeys?: string[];
+  /** Replace the default key denylist instead of extending it */
+  replaceDefaultDenylist?: boolean;
+  /**
+   * Strip query parameter values from URLs in messages and metadata.
+   * `true` strips every parameter, an array strips only the named ones. Defaults to true.
+   */
+  stripUrlQueryParams?: boolean | string[];
+  /**
+   * Scrub the email set via `setUser`, both the top-level `userEmail` field and
+   * `userEmail` metadata. Defaults to true; set to false if the backend needs it.
+   */
+  scrubUserEmail?: boolean;
+  /** Replacement text. Defaults to `[Filtered]`. */
+  replacement?: string;
+}
+
+const DEFAULT_DENYLIST_KEYS = [
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'accesstoken',
+  'refreshtoken',
+  'idtoken',
+  'apikey',
+  'authorization',
+  'auth',
+  'cookie',
+  'setcookie',
+  'session',
+  'ssn',
+  'creditcard',
+  'cardnumber',
+  'cvv',
+  'pin',
+];
+
+const BEARER_PATTERN = /\b(Bearer)\s+[A-Za-z0-9\-._~+/]+=*/gi;
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g;
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const CREDIT_CARD_PATTERN = /\b(?:\d[ -]?){13,18}\d\b/g;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b|\+\d{8,15}\b/g;
+const URL_PATTERN = /\bhttps?:\/\/[^\s"'<>()]+/gi;
+/** Trailing `:line:column` left on URLs that appear in stack frames */
+const POSITION_SUFFIX_PATTERN = /(?::\d+){1,2}$/;
+
+const MAX_DEPTH = 10;
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[_-]/g, '');
+}
+
+export interface DeepMapOptions {
+  /** Transform a string value. Returning undefined drops it. */
+  mapString: (value: string) => string | undefined;
+  /** Object keys whose values are replaced without being visited */
+  replaceKey: (key: string) => boolean;
+  /** Value for replaced keys, cycles and values nested too deeply. Undefined drops them. */
+  replacement?: unknown;
+}
+
+/**
+ * Deep-copy a value, transforming every string in nested objects and arrays
+ */
+export function mapValueDeep(value: unknown, options: DeepMapOptions): unknown {
+  return mapValue(value, options, 0, new WeakSet());
+}
+
+function mapValue(value: unknown, options: DeepMapOptions, depth: number, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') return options.mapString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH || seen.has(value)) return options.replacement;
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => mapValue(item, options, depth + 1, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    const mapped = options.replaceKey(key) ? options.replacement : mapValue(item, options, depth + 1, seen);
+    if (mapped !== undefined) result[key] = mapped;
+  }
+  return result;
+}
+
+/**
+ * Luhn checksum, used to avoid scrubbing arbitrary long digit runs as card numbers
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Removes personally identifiable information from log events and breadcrumbs
+ * before they are persisted or sent.
+ */
+export class PiiScrubber {
+  private readonly _patterns: Required<ScrubPatterns>;
+  private readonly _customPatterns: RegExp[];
+  private readonly _denylist: Set<string>;
+  private readonly _stripUrlQueryParams: boolean | Set<string>;
+  private readonly _scrubUserEmail: boolean;
+  private readonly _replacement: string;
+
+  constructor(options: ScrubOptions = {}) {
+    this._patterns = {
+      email: options.patterns?.email ?? true,
+      phone: options.patterns?.phone ?? true,
+      creditCard: options.patterns?.creditCard ?? true,
+      jwt: options.patterns?.jwt ?? true,
+      bearerToken: options.patterns?.bearerToken ?? true,
+    };
+    this._customPatterns = (options.customPatterns ?? []).map((pattern) =>
+      pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)
+    );
+
+    this._scrubUserEmail = options.scrubUserEmail ?? true;
+
+    const baseKeys = options.replaceDefaultDenylist ? [] : DEFAULT_DENYLIST_KEYS;
+    this._denylist = new Set(
+      [...baseKeys, ...(options.denylistKeys ?? []), ...(this._scrubUserEmail ? ['userEmail'] : [])].map(normalizeKey)
+    );
+
+    const stripParams = options.stripUrlQueryParams ?? true;
+    this._stripUrlQueryParams = Array.isArray(stripParams) ? new Set(stripParams) : stripParams;
+    this._replacement = options.replacement ?? '[Filtered]';
+  }
+
+  scrubEvent(event: LogEvent): LogEvent {
+    return {
+      ...event,
+      message: this.scrubString(event.message),
+      stackTrace: event.stackTrace !== undefined ? this._scrubPatterns(event.stackTrace) : undefined,
+      metadata: event.metadata ? this.scrubRecord(event.metadata) : undefined,
+      tags: event.tags
+        ? Object.fromEntries(Object.entries(event.tags).map(([key, value]) => [key, this.scrubString(value)]))
+        : undefined,
+      userEmail: this._scrubUserEmail && event.userEmail ? this._replacement : event.userEmail,
+    };
+  }
+
+  scrubBreadcrumb(breadcrumb: Breadcrumb): Breadcrumb {
+    return {
+      ...breadcrumb,
+      message: this.scrubString(breadcrumb.message),
+      data: breadcrumb.data ? this.scrubRecord(breadcrumb.data) : undefined,
+    };
+  }
+
+  scrubRecord(record: Record<string, unknown>): Record<string, unknown> {
+    return mapValueDeep(record, {
+      mapString: (value) => this.scrubString(value),
+      replaceKey: (key) => this._denylist.has(normalizeKey(key)),
+      replacement: this._replacement,
+    }) as Record<string, unknown>;
+  }
+
+  scrubString(value: string): string {
+    return this._scrubPatterns(this._scrubUrls(value));
+  }
+
+  private _scrubPatterns(value: string): string {
+    let result = value;
+
+    if (this._patterns.bearerToken) {
+      result = result.replace(BEARER_PATTERN, `$1 ${this._replacement}`);
+    }
+    if (this._patterns.jwt) {
+      result = result.replace(JWT_PATTERN, this._replacement);
+    }
+    if (this._patterns.email) {
+      result = result.replace(EMAIL_PATTERN, this._replacement);
+    }
+    if (this._patterns.creditCard) {
+      result = result.replace(CREDIT_CARD_PATTERN, (match) =>
+        passesLuhn(match.replace(/[ -]/g, '')) ? this._replacement : match
+      );
+    }
+    if (this._patterns.phone) {
+      result = result.replace(PHONE_PATTERN, this._replacement);
+    }
+    for (const pattern of this._customPatterns) {
+      result = result.replace(pattern, this._replacement);
+    }
+
+    return result;
+  }
+
+  private _scrubUrls(value: string): string {
+    if (this._stripUrlQueryParams === false) return value;
+    return value.replace(URL_PATTERN, (url) => this.scrubUrl(url));
+  }
+
+  /**
+   * Replace query parameter values in a single URL
+   */
+  scrubUrl(url: string): string {
+    const stripParams = this._stripUrlQueryParams;
+    const queryStart = url.indexOf('?');
+    if (queryStart < 0 || stripParams === false) return url;
+
+    const position = POSITION_SUFFIX_PATTERN.exec(url)?.[0] ?? '';
+    const end = url.length - position.length;
+    const hashStart = url.indexOf('#', queryStart);
+    const query = url.substring(queryStart + 1, hashStart < 0 ? end : hashStart);
+    const hash = hashStart < 0 ? '' : url.substring(hashStart, end);
+
+    const params = query.split('&').map((param) => {
+      const [name] = param.split('=', 1);
+      const shouldStrip = stripParams === true || stripParams.has(name);
+      return shouldStrip && param.includes('=') ? `${name}=${this._replacement}` : param;
+    });
+
+    return `${url.substring(0, queryStart)}?${params.join('&')}${hash}${position}`;
+  }
+}
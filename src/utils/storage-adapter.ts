@@ -0,0 +1,94 @@
+/**
+ * Key-value store used for the SDK's persisted state.
+ * Implement this to back the SDK with MMKV, an encrypted store, or anything else.
+ */
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+  /** Optional batched read, used when available */
+  multiGet?(keys: readonly string[]): Promise<ReadonlyArray<readonly [string, string | null]>>;
+  /** Optional batched delete, used when available */
+  multiRemove?(keys: readonly string[]): Promise<void>;
+}
+
+type AsyncStorageStatic = typeof import('@react-native-async-storage/async-storage').default;
+
+let _asyncStorage: AsyncStorageStatic | undefined;
+
+/**
+ * Loaded on first use so apps and tests using another adapter never touch the native module
+ */
+function getAsyncStorage(): AsyncStorageStatic {
+  if (!_asyncStorage) {
+    _asyncStorage = require('@react-native-async-storage/async-storage').default as AsyncStorageStatic;
+  }
+  return _asyncStorage;
+}
+
+/**
+ * Default adapter backed by `@react-native-async-storage/async-storage`
+ */
+export const asyncStorageAdapter: StorageAdapter = {
+  getItem: (key) => getAsyncStorage().getItem(key),
+  setItem: (key, value) => getAsyncStorage().setItem(key, value),
+  removeItem: (key) => getAsyncStorage().removeItem(key),
+  getAllKeys: () => getAsyncStorage().getAllKeys(),
+  multiGet: (keys) => getAsyncStorage().multiGet(keys),
+  multiRemove: (keys) => getAsyncStorage().multiRemove(keys),
+};
+
+/**
+ * Non-persistent adapter, useful in tests and for apps that must not write to disk
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private _items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this._items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this._items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this._items.delete(key);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return Array.from(this._items.keys());
+  }
+
+  clear(): void {
+    this._items.clear();
+  }
+}
+
+/**
+ * Wrap an adapter so every key is prefixed with `namespace`, isolating one client's
+ * persisted state from another sharing the same underlying store
+ */
+export function createNamespacedStorage(storage: StorageAdapter, namespace: string): StorageAdapter {
+  const prefix = `${namespace}:`;
+  const namespaced: StorageAdapter = {
+    getItem: (key) => storage.getItem(prefix + key),
+    setItem: (key, value) => storage.setItem(prefix + key, value),
+    removeItem: (key) => storage.removeItem(prefix + key),
+    getAllKeys: async () =>
+      (await storage.getAllKeys()).filter((key) => key.startsWith(prefix)).map((key) => key.slice(prefix.length)),
+  };
+
+  const multiGet = storage.multiGet?.bind(storage);
+  if (multiGet) {
+    namespaced.multiGet = async (keys) =>
+      (await multiGet(keys.map((key) => prefix + key))).map(([key, value]) => [key.slice(prefix.length), value] as const);
+  }
+  const multiRemove = storage.multiRemove?.bind(storage);
+  if (multiRemove) {
+    namespaced.multiRemove = (keys) => multiRemove(keys.map((key) => prefix + key));
+  }
+
+  return namespaced;
+}
@@ -1,4 +1,7 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageAdapter } from './storage-adapter';
+
+/** Every key the SDK writes starts with this prefix */
+export const STORAGE_KEY_PREFIX = 'telling_';
 
 export const STORAGE_KEYS = {
   LOGS_BUFFER: 'telling_logs_buffer',
@@ -6,18 +9,26 @@ export const STORAGE_KEYS = {
   LAST_APP_VERSION: 'telling_last_app_version',
   UPDATE_SNOOZED_UNTIL: 'telling_update_snoozed_until',
   SNOOZED_MIN_VERSION: 'telling_snoozed_min_version',
+  LOGS_QUEUE_PREFIX: 'telling_logs_queue_',
+  API_KEY_REJECTED: 'telling_api_key_rejected',
+  CONSENT: 'telling_consent',
+  ANONYMOUS_ID: 'telling_anonymous_id',
+  ALIASED_USER: 'telling_aliased_user',
+  SUPER_PROPERTIES: 'telling_super_properties',
+  USER_PROPERTIES: 'telling_user_properties',
+  SESSION: 'telling_session',
 } as const;
 
-export async function getStorageItem(key: string): Promise<string | null> {
-  return AsyncStorage.getItem(key);
+export async function getStorageItem(storage: StorageAdapter, key: string): Promise<string | null> {
+  return storage.getItem(key);
 }
 
-export async function setStorageItem(key: string, value: string): Promise<void> {
-  await AsyncStorage.setItem(key, value);
+export async function setStorageItem(storage: StorageAdapter, key: string, value: string): Promise<void> {
+  await storage.setItem(key, value);
 }
 
-export async function getStringList(key: string): Promise<string[] | null> {
-  const value = await AsyncStorage.getItem(key);
+export async function getStringList(storage: StorageAdapter, key: string): Promise<string[] | null> {
+  const value = await storage.getItem(key);
   if (!value) return null;
   try {
     return JSON.parse(value) as string[];
@@ -26,6 +37,32 @@ export async function getStringList(key: string): Promise<string[] | null> {
   }
 }
 
-export async function setStringList(key: string, value: string[]): Promise<void> {
-  await AsyncStorage.setItem(key, JSON.stringify(value));
+export async function setStringList(storage: StorageAdapter, key: string, value: string[]): Promise<void> {
+  await storage.setItem(key, JSON.stringify(value));
+}
+
+export async function removeStorageItems(storage: StorageAdapter, keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  if (storage.multiRemove) {
+    await storage.multiRemove(keys);
+  } else {
+    await Promise.all(keys.map((key) => storage.removeItem(key)));
+  }
+}
+
+export async function getStorageKeys(storage: StorageAdapter, prefix: string): Promise<string[]> {
+  const keys = await storage.getAllKeys();
+  return keys.filter((key) => key.startsWith(prefix));
+}
+
+export async function getStorageItems(
+  storage: StorageAdapter,
+  keys: string[]
+): Promise<Array<[string, string | null]>> {
+  if (keys.length === 0) return [];
+  if (storage.multiGet) {
+    const entries = await storage.multiGet(keys);
+    return entries.map(([key, value]) => [key, value]);
+  }
+  return Promise.all(keys.map(async (key): Promise<[string, string | null]> => [key, await storage.getItem(key)]));
 }
@@ -6,6 +6,8 @@ interface TryRunOptions<T> {
   func: () => Promise<T>;
   onSuccess?: () => void;
   onError?: (error: Error, stack?: string) => void;
+  /** Client to report to. Defaults to `TellingLogger.instance`. */
+  client?: TellingLogger;
 }
 
 interface TryRunVoidOptions {
@@ -14,6 +16,8 @@ interface TryRunVoidOptions {
   func: () => Promise<void>;
   onSuccess?: () => void;
   onError?: (error: Error, stack?: string) => void;
+  /** Client to report to. Defaults to `TellingLogger.instance`. */
+  client?: TellingLogger;
 }
 
 interface TryRunSyncOptions<T> {
@@ -22,6 +26,8 @@ interface TryRunSyncOptions<T> {
   func: () => T;
   onSuccess?: () => void;
   onError?: (error: Error, stack?: string) => void;
+  /** Client to report to. Defaults to `TellingLogger.instance`. */
+  client?: TellingLogger;
 }
 
 /**
@@ -34,7 +40,7 @@ export async function tryRun<T>(options: TryRunOptions<T>): Promise<T | null> {
     return result;
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
-    TellingLogger.instance.captureException({
+    (options.client ?? TellingLogger.instance).captureException({
       error: err,
       context: options.context,
       metadata: options.metadata,
@@ -53,7 +59,7 @@ export async function tryRunVoid(options: TryRunVoidOptions): Promise<void> {
     options.onSuccess?.();
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
-    TellingLogger.instance.captureException({
+    (options.client ?? TellingLogger.instance).captureException({
       error: err,
       context: options.context,
       metadata: options.metadata,
@@ -72,7 +78,7 @@ export function tryRunSync<T>(options: TryRunSyncOptions<T>): T | null {
     return result;
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
-    TellingLogger.instance.captureException({
+    (options.client ?? TellingLogger.instance).captureException({
       error: err,
       context: options.context,
       metadata: options.metadata,